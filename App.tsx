@@ -1,149 +1,719 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
-import { ImageUploader } from './components/ImageUploader';
+import { ModelProfileSelector } from './components/ModelProfileSelector';
 import { ResultDisplay } from './components/ResultDisplay';
 import { SparklesIcon } from './components/icons/SparklesIcon';
-import { generateStyledImage, analyzeTrend } from './services/geminiService';
-import { TrendAnalysisResult } from './types';
+import { getModelNames } from './services/geminiService';
+import { LookRecord, ModelProfile, TrendAnalysisResult } from './types';
 import { ClothingSelector } from './components/ClothingSelector';
-import { clothingItems as initialClothingItems, ClothingItem } from './data/clothingItems';
-import { ApiError } from './utils/errors';
+import { clothingItems as initialClothingItems, ClothingItem, DEFAULT_CATEGORIES } from './data/clothingItems';
+import * as catalog from './services/catalogRepository';
+import * as history from './services/historyRepository';
+import * as categoryStore from './services/categoryRepository';
+import * as modelProfiles from './services/modelProfileRepository';
+import * as promptTemplateStore from './services/promptTemplateRepository';
+import * as settings from './services/settingsRepository';
+import { setPromptMarket, setPromptTemplates } from './services/promptTemplates';
+import { getModelLimits, setModelLimits } from './services/rateLimiter';
+import { getRetryPolicy } from './services/retryPolicy';
+import { loadUsage } from './services/usageLedger';
+import { HistoryGallery } from './components/HistoryGallery';
+import { BatchPanel } from './components/BatchPanel';
+import { ComparisonView } from './components/ComparisonView';
+import { UndoToast } from './components/UndoToast';
+import { ScenePresetPicker } from './components/ScenePresetPicker';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { UsagePanel } from './components/UsagePanel';
+import { BlockedNotice } from './components/BlockedNotice';
+import { VariationPicker } from './components/VariationPicker';
+import { VariationStrip } from './components/VariationStrip';
+import { BatchItemProgress } from './services/batchRunner';
+import {
+  DEFAULT_VARIATION_SETTINGS, getBestCandidate, runVariations, VariationCandidate, VariationSettings,
+} from './services/variationRunner';
+import { PipelineStepper } from './components/PipelineStepper';
+import {
+  createStageStatuses, getPipelineState, resetFromStage, resetInterruptedStages, runPipeline, StageStatuses,
+} from './services/pipeline';
+import { LookPipelineContext, lookPipelineStages } from './services/lookPipeline';
+import { ApiError, CancelledError, GenerationBlock, SafetyBlockedError } from './utils/errors';
+import { describeOutfit, sortByLayer, toggleOutfitItem } from './utils/outfitUtils';
+import { getBestScores } from './utils/catalogFilters';
+import { ImportedItem, ImportMode } from './services/catalogBundle';
+import { getObjectUrl, ImagePayload } from './utils/imagePayload';
+import { DEFAULT_SCENE, SceneSettings } from './data/scenePresets';
+import { DEFAULT_MARKET, DEFAULT_PROMPT_TEMPLATES, PromptTemplate, PromptTemplateId } from './data/promptTemplates';
+import { ModelLimits } from './data/modelQuotas';
 
 
+const MAX_COMPARED_LOOKS = 4;
+const MARKET_SETTING = 'promptMarket';
+const LIMITS_SETTING = 'modelLimits';
+
+// What a request reported about how the look was made; template versions come from the prompts actually rendered
+type LookDetails = Partial<Pick<LookRecord, 'trendResult' | 'composeTemplateVersion' | 'analysisTemplateVersion' | 'seed'>>;
+
+const buildLookRecord = (
+  profile: ModelProfile,
+  scene: SceneSettings,
+  garments: ClothingItem[],
+  generatedImage: ImagePayload,
+  { trendResult = null, composeTemplateVersion = null, analysisTemplateVersion = null, seed = null }: LookDetails = {}
+): LookRecord => {
+  const { imageModel, analysisModel } = getModelNames();
+  return {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    modelImage: profile.photos[0],
+    modelProfileId: profile.id,
+    modelProfileName: profile.name,
+    scene,
+    clothingItemIds: garments.map(garment => garment.id),
+    clothingItemName: describeOutfit(garments),
+    generatedImage,
+    trendResult,
+    imageModel,
+    analysisModel: trendResult ? analysisModel : null,
+    composeTemplateVersion,
+    analysisTemplateVersion: trendResult ? analysisTemplateVersion : null,
+    seed,
+    favorite: false,
+  };
+};
+
 const App: React.FC = () => {
-  const [modelImage, setModelImage] = useState<string | null>(null);
-  const [selectedClothing, setSelectedClothing] = useState<string | null>(null);
-  const [selectedClothingId, setSelectedClothingId] = useState<number | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ModelProfile[]>([]);
+  const [modelProfileId, setModelProfileId] = useState<string | null>(null);
+  const [scene, setScene] = useState<SceneSettings>(DEFAULT_SCENE);
+  const [selectedClothingIds, setSelectedClothingIds] = useState<number[]>([]);
+  const [isOutfitMode, setIsOutfitMode] = useState<boolean>(false);
+  const [generatedImage, setGeneratedImage] = useState<ImagePayload | null>(null);
   const [trendResult, setTrendResult] = useState<TrendAnalysisResult | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [loadingMessage, setLoadingMessage] = useState<string>('Generating your look...');
+  const [pipelineStatuses, setPipelineStatuses] = useState<StageStatuses>(() => createStageStatuses(lookPipelineStages));
   const [error, setError] = useState<string | null>(null);
-  const [items, setItems] = useState<ClothingItem[]>(initialClothingItems);
+  // Set when the AI refused or filtered the last request, to explain why instead of a generic error
+  const [block, setBlock] = useState<GenerationBlock | null>(null);
+  const [items, setItems] = useState<ClothingItem[]>([]);
+  const [categories, setCategories] = useState<string[]>(DEFAULT_CATEGORIES);
+  // The most recent removal, kept until the undo prompt is dismissed
+  const [removedItems, setRemovedItems] = useState<ClothingItem[] | null>(null);
+  const [looks, setLooks] = useState<LookRecord[]>([]);
+  const [currentLookId, setCurrentLookId] = useState<string | null>(null);
+  const [comparedLookIds, setComparedLookIds] = useState<string[]>([]);
+  const [promptTemplates, setPromptTemplateList] = useState<PromptTemplate[]>(DEFAULT_PROMPT_TEMPLATES);
+  const [market, setMarket] = useState(DEFAULT_MARKET);
+  const [modelLimits, setModelLimitsState] = useState<Record<string, ModelLimits>>(getModelLimits);
+  const [variationSettings, setVariationSettings] = useState<VariationSettings>(DEFAULT_VARIATION_SETTINGS);
+  const [variations, setVariations] = useState<VariationCandidate[]>([]);
+  const [selectedVariation, setSelectedVariation] = useState<number | null>(null);
+  const [variationRun, setVariationRun] = useState<AbortController | null>(null);
+
+  // Selected garments, ordered from the innermost layer outwards
+  const selectedGarments = useMemo(() => sortByLayer<ClothingItem>(
+    selectedClothingIds
+      .map(id => items.find(item => item.id === id))
+      .filter((item): item is ClothingItem => item !== undefined)
+  ), [selectedClothingIds, items]);
+
+  const bestScores = useMemo(() => getBestScores(looks), [looks]);
+  const activeProfile = profiles.find(profile => profile.id === modelProfileId) ?? null;
+
+  useEffect(() => {
+    catalog.listItems()
+      .then(setItems)
+      .catch((err) => {
+        // Keep the app usable without persistence (e.g. private browsing)
+        console.error('Failed to load the saved catalog, using the bundled items instead.', err);
+        setItems(initialClothingItems);
+      });
+  }, []);
+
+  useEffect(() => {
+    modelProfiles.listProfiles()
+      .then(saved => {
+        setProfiles(saved);
+        if (saved.length === 1) setModelProfileId(saved[0].id);
+      })
+      .catch(err => console.error('Failed to load the model profiles.', err));
+  }, []);
+
+  useEffect(() => {
+    categoryStore.listCategories()
+      .then(setCategories)
+      .catch(err => console.error('Failed to load the category list, using the defaults instead.', err));
+  }, []);
+
+  useEffect(() => {
+    promptTemplateStore.listTemplates()
+      .then(saved => {
+        setPromptTemplateList(saved);
+        setPromptTemplates(saved);
+      })
+      .catch(err => console.error('Failed to load the prompt templates, using the defaults instead.', err));
+    settings.getSetting(MARKET_SETTING, DEFAULT_MARKET)
+      .then(saved => {
+        setMarket(saved);
+        setPromptMarket(saved);
+      })
+      .catch(err => console.error('Failed to load the target market.', err));
+  }, []);
+
+  useEffect(() => {
+    loadUsage().catch(err => console.error('Failed to load the usage ledger.', err));
+    settings.getSetting<Record<string, ModelLimits>>(LIMITS_SETTING, {})
+      .then(saved => {
+        setModelLimits(saved);
+        setModelLimitsState(getModelLimits());
+      })
+      .catch(err => console.error('Failed to load the rate limits, using the defaults instead.', err));
+  }, []);
+
+  useEffect(() => {
+    history.listLooks()
+      .then(setLooks)
+      .catch(err => console.error('Failed to load the look history.', err));
+  }, []);
+
+  const handleAddItem = async (item: Omit<ClothingItem, 'id'>) => {
+    try {
+      const newItem = await catalog.addItem(item);
+      setItems(prevItems => [newItem, ...prevItems]);
+    } catch (err) {
+      console.error(err);
+      setError('Could not save the new item. Please try again.');
+    }
+  };
+
+  // Saved optimistically; the catalog in memory stays authoritative for this session
+  const handleUpdateItems = (updatedItems: ClothingItem[]) => {
+    setItems(prevItems => prevItems.map(item => updatedItems.find(updated => updated.id === item.id) ?? item));
+    catalog.updateItems(updatedItems).catch(err => {
+      console.error(err);
+      setError('Could not save your changes to the catalog. Please try again.');
+    });
+  };
+
+  const handleCreateCategory = async (name: string) => {
+    try {
+      setCategories(await categoryStore.addCategories([name]));
+    } catch (err) {
+      console.error('Failed to save the new category.', err);
+      setCategories(prevCategories => [...prevCategories, name]);
+    }
+  };
+
+  const handleRemoveCategory = (name: string) => {
+    setCategories(prevCategories => prevCategories.filter(category => category !== name));
+    categoryStore.removeCategory(name).catch(err => console.error('Failed to remove the category.', err));
+  };
+
+  // Errors are left to the caller, which reports them next to the import controls
+  const handleImportItems = async (importedItems: ImportedItem[], mode: ImportMode) => {
+    const newItems = await catalog.importItems(importedItems, mode);
+    setCategories(await categoryStore.addCategories(importedItems.map(item => item.category)));
+    if (mode === 'replace') {
+      setItems(newItems);
+      setSelectedClothingIds([]);
+      handleStartOver();
+    } else {
+      setItems(prevItems => [...newItems, ...prevItems]);
+    }
+  };
+
+  // Only the latest request may update state; older ones are aborted and their results dropped
+  const activeRequest = useRef<AbortController | null>(null);
+
+  const beginRequest = () => {
+    activeRequest.current?.abort();
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    return controller;
+  };
+
+  const isStale = (controller: AbortController) => activeRequest.current !== controller || controller.signal.aborted;
 
-  const handleAddItem = (item: Omit<ClothingItem, 'id'>) => {
-    const newItem: ClothingItem = {
-      id: Date.now(),
-      ...item,
-    };
-    setItems(prevItems => [newItem, ...prevItems]);
+  const cancelActiveRequest = () => {
+    activeRequest.current?.abort();
+    activeRequest.current = null;
+  };
+
+  const handleCancel = () => {
+    cancelActiveRequest();
+    setPipelineStatuses(resetInterruptedStages);
   };
 
   const handleStartOver = () => {
+    cancelActiveRequest();
+    clearVariations();
     setGeneratedImage(null);
     setTrendResult(null);
+    setCurrentLookId(null);
     setError(null);
-    setIsLoading(false);
+    setBlock(null);
+    setPipelineStatuses(createStageStatuses(lookPipelineStages));
+  };
+
+  // Rethrows after reporting, so the editor keeps the unsaved text
+  const handleSaveTemplate = async (id: PromptTemplateId, text: string) => {
+    try {
+      const template = await promptTemplateStore.saveTemplateVersion(id, text);
+      const updated = [...promptTemplates, template];
+      setPromptTemplateList(updated);
+      setPromptTemplates(updated);
+    } catch (err) {
+      console.error(err);
+      setError('Could not save the prompt template. Please try again.');
+      throw err;
+    }
+  };
+
+  const handleMarketChange = (value: string) => {
+    const next = value.trim() || DEFAULT_MARKET;
+    setMarket(next);
+    setPromptMarket(next);
+    settings.saveSetting(MARKET_SETTING, next).catch(err => console.error('Failed to save the target market.', err));
+  };
+
+  const handleLimitsChange = (limits: Record<string, ModelLimits>) => {
+    setModelLimits(limits);
+    setModelLimitsState(getModelLimits());
+    settings.saveSetting(LIMITS_SETTING, limits).catch(err => console.error('Failed to save the rate limits.', err));
   };
 
-  const handleModelImageUpload = (image: string) => {
-    setModelImage(image);
+  const handleSelectProfile = (profile: ModelProfile) => {
+    if (profile.id === modelProfileId) return;
+    setModelProfileId(profile.id);
     handleStartOver();
   };
 
-  const handleClothingSelect = (id: number, imageData: string) => {
-    setSelectedClothingId(id);
-    setSelectedClothing(imageData);
+  const handleSaveProfile = (profile: ModelProfile) => {
+    const isNew = !profiles.some(existing => existing.id === profile.id);
+    setProfiles(prevProfiles => isNew
+      ? [...prevProfiles, profile]
+      : prevProfiles.map(existing => (existing.id === profile.id ? profile : existing)));
+    modelProfiles.saveProfile(profile).catch(err => {
+      console.error(err);
+      setError('Could not save the model profile. It will be lost when you leave the page.');
+    });
+    // A new or edited profile becomes the one in use; results from the old photos no longer apply
+    setModelProfileId(profile.id);
     handleStartOver();
   };
 
-  const handleRemoveItem = (idToRemove: number) => {
-    setItems(prevItems => prevItems.filter(item => item.id !== idToRemove));
-    if (selectedClothingId === idToRemove) {
-      setSelectedClothing(null);
-      setSelectedClothingId(null);
+  const handleDeleteProfile = (id: string) => {
+    setProfiles(prevProfiles => prevProfiles.filter(profile => profile.id !== id));
+    modelProfiles.deleteProfile(id).catch(err => console.error('Failed to delete the model profile.', err));
+    if (id === modelProfileId) {
+      setModelProfileId(null);
+      handleStartOver();
     }
+  };
+
+  const handleClothingSelect = (item: ClothingItem) => {
+    const nextSelection = isOutfitMode ? toggleOutfitItem(selectedGarments, item) : [item];
+    setSelectedClothingIds(nextSelection.map(selected => selected.id));
     handleStartOver();
   };
 
+  const handleOutfitModeChange = (outfitMode: boolean) => {
+    setIsOutfitMode(outfitMode);
+    // A single-item selection is always a valid outfit, but not the other way around
+    if (!outfitMode && selectedClothingIds.length > 1) {
+      setSelectedClothingIds([]);
+      handleStartOver();
+    }
+  };
 
-  const handleGenerateImage = useCallback(async () => {
-    if (!modelImage || !selectedClothing) {
-      setError('Please upload a model image and select a clothing item.');
-      return;
+  const handleRemoveItems = (idsToRemove: number[]) => {
+    const removed = items.filter(item => idsToRemove.includes(item.id));
+    if (removed.length === 0) return;
+    setItems(prevItems => prevItems.filter(item => !idsToRemove.includes(item.id)));
+    catalog.removeItems(idsToRemove).catch(err => console.error('Failed to remove items from the catalog.', err));
+    setSelectedClothingIds(prevIds => prevIds.filter(id => !idsToRemove.includes(id)));
+    setRemovedItems(removed);
+    handleStartOver();
+  };
+
+  const handleUndoRemove = () => {
+    if (!removedItems) return;
+    setItems(prevItems => [...removedItems, ...prevItems]);
+    catalog.restoreItems(removedItems).catch(err => {
+      console.error(err);
+      setError('Could not restore the removed items.');
+    });
+    setRemovedItems(null);
+  };
+
+  const dismissUndo = useCallback(() => setRemovedItems(null), []);
+
+  const handleOpenLook = (look: LookRecord) => {
+    cancelActiveRequest();
+    clearVariations();
+    const availableIds = look.clothingItemIds.filter(id => items.some(item => item.id === id));
+    // The look stays viewable without its profile, but a retry needs one to be picked again
+    setModelProfileId(profiles.some(profile => profile.id === look.modelProfileId) ? look.modelProfileId : null);
+    setSelectedClothingIds(availableIds);
+    setIsOutfitMode(look.clothingItemIds.length > 1);
+    // Looks saved before scene presets existed were all shot in the default studio setup
+    setScene(look.scene ?? DEFAULT_SCENE);
+    setGeneratedImage(look.generatedImage);
+    setTrendResult(look.trendResult);
+    setCurrentLookId(look.id);
+    setError(null);
+    setBlock(null);
+    setPipelineStatuses({
+      generate: { kind: 'done' },
+      analyze: look.trendResult ? { kind: 'done' } : { kind: 'queued' },
+    });
+  };
+
+  const handleDeleteLook = (id: string) => {
+    setLooks(prevLooks => prevLooks.filter(look => look.id !== id));
+    if (currentLookId === id) {
+      setCurrentLookId(null);
     }
+    setComparedLookIds(prevIds => prevIds.filter(lookId => lookId !== id));
+    history.deleteLook(id).catch(err => console.error('Failed to delete look from the history.', err));
+  };
+
+  const handleToggleFavorite = async (look: LookRecord) => {
+    try {
+      const updated = await history.updateLook(look.id, { favorite: !look.favorite });
+      setLooks(prevLooks => prevLooks.map(l => l.id === updated.id ? updated : l));
+    } catch (err) {
+      console.error('Failed to update the look.', err);
+    }
+  };
+
+  const handleToggleCompare = (id: string) => {
+    setComparedLookIds(prevIds => {
+      if (prevIds.includes(id)) return prevIds.filter(lookId => lookId !== id);
+      return prevIds.length < MAX_COMPARED_LOOKS ? [...prevIds, id] : prevIds;
+    });
+  };
 
-    setIsLoading(true);
-    setLoadingMessage('Generating your look...');
+  const comparedLooks = comparedLookIds
+    .map(id => looks.find(look => look.id === id))
+    .filter((look): look is LookRecord => look !== undefined);
+
+  // Records a finished step of the current look; history failures never block the UI
+  const recordLook = async (look: LookRecord) => {
+    try {
+      await history.saveLook(look);
+      setLooks(prevLooks => prevLooks.some(l => l.id === look.id)
+        ? prevLooks.map(l => l.id === look.id ? look : l)
+        : [look, ...prevLooks]);
+    } catch (err) {
+      console.error('Failed to save look to the history.', err);
+    }
+  };
+
+
+  // Batch results are recorded like any other look so they can be reopened from the leaderboard
+  const batchLooks = useRef(new Map<number, LookRecord>());
+
+  const handleBatchItemComplete = (progress: BatchItemProgress) => {
+    if (!activeProfile || !progress.generatedImage || !progress.trendResult) return;
+    const look = buildLookRecord(activeProfile, scene, [progress.item], progress.generatedImage, {
+      trendResult: progress.trendResult,
+      composeTemplateVersion: progress.composeTemplateVersion,
+      analysisTemplateVersion: progress.analysisTemplateVersion,
+    });
+    batchLooks.current.set(progress.item.id, look);
+    recordLook(look);
+  };
+
+  const handleOpenBatchResult = (progress: BatchItemProgress) => {
+    const look = batchLooks.current.get(progress.item.id);
+    if (look) {
+      handleOpenLook(look);
+    }
+  };
+
+  // Runs the stages that are not done yet; completed stages keep their results across retries
+  // `forceRefresh` bypasses the response cache, e.g. when the user wants a different image for the same inputs
+  const executePipeline = useCallback(async (
+    profile: ModelProfile,
+    context: LookPipelineContext,
+    statuses: StageStatuses,
+    forceRefresh = false
+  ) => {
+    const controller = beginRequest();
     setError(null);
-    setGeneratedImage(null);
-    setTrendResult(null);
+    setBlock(null);
+    let look = looks.find(l => l.id === currentLookId);
 
     try {
-      const newImageBase64 = await generateStyledImage(
-        modelImage,
-        selectedClothing,
-        (attempt) => setLoadingMessage(`High demand. Retrying image generation... (Attempt ${attempt}/2)`)
-      );
-      setGeneratedImage(newImageBase64);
+      await runPipeline(lookPipelineStages, context, {
+        statuses,
+        signal: controller.signal,
+        forceRefresh,
+        onStatusChange: (next) => {
+          if (!isStale(controller)) setPipelineStatuses(next);
+        },
+        onStageComplete: async (stageId, result) => {
+          if (isStale(controller)) return;
+          if (stageId === 'generate' && result.generatedImage) {
+            setGeneratedImage(result.generatedImage);
+            look = buildLookRecord(profile, context.scene, selectedGarments, result.generatedImage, {
+              composeTemplateVersion: result.composeTemplateVersion,
+            });
+            setCurrentLookId(look.id);
+            await recordLook(look);
+          }
+          if (stageId === 'analyze' && result.trendResult) {
+            setTrendResult(result.trendResult);
+            if (look) {
+              await recordLook({
+                ...look,
+                trendResult: result.trendResult,
+                analysisModel: getModelNames().analysisModel,
+                analysisTemplateVersion: result.analysisTemplateVersion ?? null,
+              });
+            }
+          }
+        },
+      });
     } catch (err) {
+      if (err instanceof CancelledError || isStale(controller)) return;
       console.error(err);
+      if (err instanceof SafetyBlockedError) {
+          setBlock(err.block);
+      }
       if (err instanceof ApiError) {
           setError(err.message);
       } else {
           setError('An unexpected error occurred. Please check the console for details.');
       }
     } finally {
-      setIsLoading(false);
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+      }
     }
-  }, [modelImage, selectedClothing]);
+  }, [looks, currentLookId, selectedGarments]);
 
-  const handleAnalyzeTrend = useCallback(async () => {
-    if (!generatedImage) return;
+  const handleGenerateAndAnalyze = useCallback((forceRefresh = false) => {
+    if (!activeProfile || selectedGarments.length === 0) {
+      setError('Please pick a model profile and select a clothing item.');
+      return;
+    }
+    clearVariations();
+    setGeneratedImage(null);
+    setTrendResult(null);
+    setCurrentLookId(null);
+    executePipeline(activeProfile, { model: activeProfile, scene, garments: selectedGarments }, createStageStatuses(lookPipelineStages), forceRefresh);
+  }, [activeProfile, scene, selectedGarments, executePipeline]);
+
+  // Every candidate of a variations run is recorded, so the ones not picked stay in the history
+  const variationLooks = useRef(new Map<number, LookRecord>());
+  const selectedVariationRef = useRef<number | null>(null);
+  const hasPickedVariation = useRef(false);
+
+  const clearVariations = () => {
+    variationLooks.current = new Map();
+    selectedVariationRef.current = null;
+    setVariations([]);
+    setSelectedVariation(null);
+  };
+
+  const recordVariation = (profile: ModelProfile, garments: ClothingItem[], candidate: VariationCandidate) => {
+    if (!candidate.generatedImage) return;
+    const existing = variationLooks.current.get(candidate.index);
+    if (existing && (!candidate.trendResult || existing.trendResult)) return;
+    const look = existing
+      ? { ...existing, trendResult: candidate.trendResult!, analysisModel: getModelNames().analysisModel, analysisTemplateVersion: candidate.analysisTemplateVersion ?? null }
+      : buildLookRecord(profile, candidate.scene, garments, candidate.generatedImage, {
+        composeTemplateVersion: candidate.composeTemplateVersion,
+        seed: candidate.seed,
+      });
+    variationLooks.current.set(candidate.index, look);
+    recordLook(look);
+  };
 
-    setIsLoading(true);
-    setLoadingMessage('Analyzing the trend...');
+  // Shows a candidate as the current look, so it can be analyzed or retried like any other.
+  // A failed candidate shows why it failed, including the guidance for a blocked request.
+  const showVariation = (candidate: VariationCandidate) => {
+    selectedVariationRef.current = candidate.index;
+    setSelectedVariation(candidate.index);
+    setGeneratedImage(candidate.generatedImage ?? null);
+    setTrendResult(candidate.trendResult ?? null);
+    setCurrentLookId(variationLooks.current.get(candidate.index)?.id ?? null);
+    setError(candidate.error ?? null);
+    setBlock(candidate.block ?? null);
+    setPipelineStatuses(candidate.generatedImage
+      ? { generate: { kind: 'done' }, analyze: candidate.trendResult ? { kind: 'done' } : { kind: 'queued' } }
+      : createStageStatuses(lookPipelineStages));
+  };
+
+  const handleSelectVariation = (candidate: VariationCandidate) => {
+    hasPickedVariation.current = true;
+    showVariation(candidate);
+  };
+
+  const handleGenerateVariations = async () => {
+    if (!activeProfile || selectedGarments.length === 0) {
+      setError('Please pick a model profile and select a clothing item.');
+      return;
+    }
+    const profile = activeProfile;
+    const garments = selectedGarments;
+    const controller = beginRequest();
+    clearVariations();
+    hasPickedVariation.current = false;
+    setGeneratedImage(null);
+    setTrendResult(null);
+    setCurrentLookId(null);
     setError(null);
+    setBlock(null);
+    setPipelineStatuses(createStageStatuses(lookPipelineStages));
+    setVariationRun(controller);
 
     try {
-        const analysisResult = await analyzeTrend(
-            generatedImage,
-            (attempt) => setLoadingMessage(`High demand. Retrying trend analysis... (Attempt ${attempt}/2)`)
-        );
-        setTrendResult(analysisResult);
+      const candidates = await runVariations(profile, garments, scene, {
+        ...variationSettings,
+        signal: controller.signal,
+        onProgress: (candidate) => {
+          if (isStale(controller)) return;
+          setVariations(prev => {
+            const next = [...prev];
+            next[candidate.index] = candidate;
+            return next;
+          });
+          recordVariation(profile, garments, candidate);
+          // The first image to arrive is shown straight away; later updates refresh the one on display
+          const selected = selectedVariationRef.current;
+          if (selected === candidate.index || (selected === null && candidate.generatedImage)) {
+            showVariation(candidate);
+          }
+        },
+      });
+      if (isStale(controller)) return;
+      const best = getBestCandidate(candidates);
+      if (best && !hasPickedVariation.current) {
+        showVariation(best);
+      }
+      // Nothing to show: explain the first failure, which may be a block the user can act on
+      if (selectedVariationRef.current === null && candidates.length > 0) {
+        showVariation(candidates.find(candidate => candidate.block) ?? candidates[0]);
+      }
     } catch (err) {
-        console.error(err);
-        if (err instanceof ApiError) {
-            setError(err.message);
-        } else {
-            setError('An unexpected error occurred during analysis. Please try again.');
-        }
+      // Cancelled by the user rather than replaced by a newer request: keep what was already generated
+      if (err instanceof CancelledError && activeRequest.current === null) {
+        // Mapped rather than filtered, so each candidate stays at the position of its index
+        setVariations(prev => prev.map(candidate => {
+          if (candidate?.status === 'generating') return { ...candidate, status: 'cancelled' };
+          if (candidate?.status === 'analyzing') return { ...candidate, status: 'done' };
+          return candidate;
+        }));
+      }
+      if (err instanceof CancelledError || isStale(controller)) return;
+      console.error(err);
+      setError('An unexpected error occurred. Please check the console for details.');
     } finally {
-        setIsLoading(false);
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+      }
+      setVariationRun(current => current === controller ? null : current);
+    }
+  };
+
+  const handleGenerate = (forceRefresh = false) => {
+    if (variationSettings.count > 1) {
+      handleGenerateVariations();
+    } else {
+      handleGenerateAndAnalyze(forceRefresh);
+    }
+  };
+
+  // Re-runs `stageId` and everything after it, reusing the outputs of earlier stages
+  const handleRetryStage = (stageId: string) => {
+    if (!activeProfile) return;
+    if (stageId === 'generate') {
+      handleGenerateAndAnalyze();
+      return;
     }
-  }, [generatedImage]);
-  
-  const canGenerate = modelImage && selectedClothing && !isLoading;
+    executePipeline(
+      activeProfile,
+      { model: activeProfile, scene, garments: selectedGarments, generatedImage: generatedImage ?? undefined },
+      resetFromStage(lookPipelineStages, pipelineStatuses, stageId)
+    );
+  };
+
+  const pipelineState = getPipelineState(lookPipelineStages, pipelineStatuses);
+  const isLoading = pipelineState.kind === 'running' || pipelineState.kind === 'retrying';
+  const activeStage = isLoading ? lookPipelineStages.find(stage => stage.id === pipelineState.stageId) : undefined;
+  const loadingMessage = pipelineState.kind === 'retrying'
+    ? `High demand. Retrying ${activeStage?.label.toLowerCase()}... (Attempt ${pipelineState.attempt}/${getRetryPolicy().maxAttempts - 1})`
+    : activeStage?.runningMessage;
+  const hasPipelineStarted = lookPipelineStages.some(stage => pipelineStatuses[stage.id].kind !== 'queued');
+
+  const isGeneratingVariations = variationRun !== null;
+  const canGenerate = activeProfile && selectedGarments.length > 0 && !isLoading && !isGeneratingVariations;
+
+  // Analyses run later from the preview are saved on the look, so the strip reads scores from there too
+  const displayedVariations = variations.filter(Boolean).map(candidate => {
+    const lookId = variationLooks.current.get(candidate.index)?.id;
+    const trendResult = candidate.trendResult ?? looks.find(look => look.id === lookId)?.trendResult ?? undefined;
+    return trendResult ? { ...candidate, trendResult } : candidate;
+  });
 
   const renderOutputContent = () => {
+    const stepper = hasPipelineStarted && (
+      <div className="mb-6 w-full">
+        <PipelineStepper stages={lookPipelineStages} statuses={pipelineStatuses} onRetryStage={handleRetryStage} />
+      </div>
+    );
+
     if (isLoading) {
       return (
-        <div className="text-center">
+        <div className="text-center w-full">
+          {stepper}
           <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500 mx-auto"></div>
           <p className="mt-4 text-lg font-semibold text-gray-300">{loadingMessage}</p>
           <p className="text-sm text-gray-500">This may take a moment.</p>
+          <button
+            onClick={handleCancel}
+            className="mt-4 px-6 py-2 text-sm font-semibold rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      );
+    }
+
+    if (isGeneratingVariations && !generatedImage && !error) {
+      return (
+        <div className="text-center w-full">
+          <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500 mx-auto"></div>
+          <p className="mt-4 text-lg font-semibold text-gray-300">Generating {variationSettings.count} variations...</p>
+          <p className="text-sm text-gray-500">The first one is shown as soon as it is ready.</p>
         </div>
       );
     }
 
     if (error && !generatedImage) { // Only show full-screen error if there's no image to show alongside it
         return (
-            <div className="text-center text-red-400 bg-red-900/50 p-4 rounded-lg w-full">
-                <h3 className="font-bold text-lg">Error</h3>
-                <p>{error}</p>
+            <div className="w-full">
+                {stepper}
+                {block ? <BlockedNotice block={block} /> : (
+                    <div className="text-center text-red-400 bg-red-900/50 p-4 rounded-lg w-full">
+                        <h3 className="font-bold text-lg">Error</h3>
+                        <p>{error}</p>
+                    </div>
+                )}
             </div>
         );
     }
 
     if (generatedImage && trendResult) {
-        return <ResultDisplay image={generatedImage} score={trendResult.score} analysis={trendResult.analysis} />;
+        return <ResultDisplay image={generatedImage} result={trendResult} />;
     }
 
     if (generatedImage) {
-        const parsedImage = JSON.parse(generatedImage);
-        const imageUrl = `data:${parsedImage.mimeType};base64,${parsedImage.data}`;
+        const imageUrl = getObjectUrl(generatedImage);
         return (
             <div className="w-full h-full flex flex-col items-center justify-center animate-fade-in text-center">
+                {stepper}
                 <h3 className="text-xl font-bold mb-4 text-indigo-400">Generated Look Preview</h3>
                 <div className="mb-6 relative">
                     <img
@@ -152,20 +722,30 @@ const App: React.FC = () => {
                         className="w-full max-h-[300px] lg:max-h-[350px] object-contain rounded-lg shadow-lg"
                     />
                 </div>
-                {error && (
+                {block ? (
+                    <div className="w-full mb-4"><BlockedNotice block={block} /></div>
+                ) : error && (
                     <div className="text-center text-red-400 bg-red-900/50 p-3 rounded-lg w-full mb-4">
                         <p>{error}</p>
                     </div>
                 )}
+                {isGeneratingVariations ? (
+                    <p className="text-sm text-gray-500">The other variations are still being generated.</p>
+                ) : (
                 <div className="flex flex-col sm:flex-row gap-4 w-full justify-center">
-                    <button onClick={handleGenerateImage} className="w-full sm:w-auto flex-1 px-6 py-3 text-md font-semibold rounded-lg bg-gray-600 hover:bg-gray-500 text-white transition-all">
+                    <button
+                        onClick={() => handleGenerate(true)}
+                        title="Request a new image instead of reusing the saved one"
+                        className="w-full sm:w-auto flex-1 px-6 py-3 text-md font-semibold rounded-lg bg-gray-600 hover:bg-gray-500 text-white transition-all"
+                    >
                         Try Again
                     </button>
-                    <button onClick={handleAnalyzeTrend} className="w-full sm:w-auto flex-1 px-6 py-3 text-md font-semibold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-all flex items-center justify-center gap-2">
+                    <button onClick={() => handleRetryStage('analyze')} className="w-full sm:w-auto flex-1 px-6 py-3 text-md font-semibold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-all flex items-center justify-center gap-2">
                         <SparklesIcon className="w-5 h-5" />
                         Analyze Trend
                     </button>
                 </div>
+                )}
             </div>
         );
     }
@@ -173,7 +753,7 @@ const App: React.FC = () => {
     return (
         <div className="text-center text-gray-500">
             <h3 className="text-2xl font-bold mb-2">Your AI Fashion Analysis Awaits</h3>
-            <p>Upload a model and select an item to begin.</p>
+            <p>Pick a model and select an item to begin.</p>
         </div>
     );
 };
@@ -189,18 +769,38 @@ const App: React.FC = () => {
           <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 flex flex-col">
             <h2 className="text-2xl font-bold mb-6 text-center text-indigo-400">Create Your Look</h2>
             <div className="space-y-6">
-              <ImageUploader title="1. Upload Model Image" onImageUpload={handleModelImageUpload} />
+              <ModelProfileSelector
+                title="1. Choose a Model"
+                profiles={profiles}
+                selectedId={modelProfileId}
+                onSelect={handleSelectProfile}
+                onSave={handleSaveProfile}
+                onDelete={handleDeleteProfile}
+              />
               <ClothingSelector
                 title="2. Choose or Add an Item"
                 items={items}
-                selectedId={selectedClothingId}
+                categories={categories}
+                bestScores={bestScores}
+                selectedIds={selectedClothingIds}
+                isOutfitMode={isOutfitMode}
+                onOutfitModeChange={handleOutfitModeChange}
                 onSelect={handleClothingSelect}
                 onAddItem={handleAddItem}
-                onRemoveItem={handleRemoveItem}
+                onUpdateItems={handleUpdateItems}
+                onRemoveItems={handleRemoveItems}
+                onImportItems={handleImportItems}
+                onCreateCategory={handleCreateCategory}
+                onRemoveCategory={handleRemoveCategory}
+              />
+              <ScenePresetPicker
+                title="3. Set the Scene"
+                scene={scene}
+                onChange={setScene}
               />
             </div>
             <button
-              onClick={handleGenerateImage}
+              onClick={() => handleGenerate()}
               disabled={!canGenerate || !!generatedImage}
               className={`
                 mt-8 w-full flex items-center justify-center gap-3 px-6 py-4 text-lg font-semibold rounded-xl
@@ -212,7 +812,7 @@ const App: React.FC = () => {
               `}
             >
               <SparklesIcon className="w-6 h-6" />
-              <span>Generate Look</span>
+              <span>{variationSettings.count > 1 ? `Generate ${variationSettings.count} Variations` : 'Generate & Analyze'}</span>
             </button>
              {(generatedImage || error) && !isLoading && (
                  <button
@@ -222,14 +822,68 @@ const App: React.FC = () => {
                     Start Over
                 </button>
             )}
+            <VariationPicker settings={variationSettings} disabled={isLoading || isGeneratingVariations} onChange={setVariationSettings} />
+            <UsagePanel limits={modelLimits} onLimitsChange={handleLimitsChange} />
           </div>
 
           {/* Output Panel */}
-          <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 flex items-center justify-center min-h-[400px] lg:min-h-0">
+          <div className="bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700 flex flex-col items-center justify-center min-h-[400px] lg:min-h-0">
+             {displayedVariations.length > 1 && (
+               <VariationStrip
+                 candidates={displayedVariations}
+                 selectedIndex={selectedVariation}
+                 isRunning={isGeneratingVariations}
+                 onSelect={handleSelectVariation}
+                 onCancel={handleCancel}
+               />
+             )}
              {renderOutputContent()}
           </div>
         </div>
+
+        <BatchPanel
+          items={items}
+          model={activeProfile}
+          scene={scene}
+          onItemComplete={handleBatchItemComplete}
+          onOpenResult={handleOpenBatchResult}
+        />
+
+        <PromptTemplateEditor
+          templates={promptTemplates}
+          market={market}
+          looks={looks}
+          onSaveTemplate={handleSaveTemplate}
+          onMarketChange={handleMarketChange}
+        />
+
+        {comparedLooks.length >= 2 && (
+          <ComparisonView
+            looks={comparedLooks}
+            onRemove={handleToggleCompare}
+            onClear={() => setComparedLookIds([])}
+          />
+        )}
+
+        <HistoryGallery
+          looks={looks}
+          items={items}
+          activeLookId={currentLookId}
+          comparedIds={comparedLookIds}
+          canCompareMore={comparedLookIds.length < MAX_COMPARED_LOOKS}
+          onToggleCompare={handleToggleCompare}
+          onOpen={handleOpenLook}
+          onDelete={handleDeleteLook}
+          onToggleFavorite={handleToggleFavorite}
+        />
       </main>
+      {removedItems && (
+        <UndoToast
+          message={removedItems.length === 1 ? `Removed "${removedItems[0].name}".` : `Removed ${removedItems.length} items.`}
+          onUndo={handleUndoRemove}
+          onDismiss={dismissUndo}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,254 @@
+import React, { useState, useRef } from 'react';
+import { ClothingCategory, ClothingItem, GarmentAttributes } from '../data/clothingItems';
+import { ACCEPT_ATTRIBUTE, cropToContent, preprocessImage } from '../utils/imagePreprocessing';
+import { ApiError, CancelledError, ImageValidationError } from '../utils/errors';
+import { getObjectUrl, ImagePayload } from '../utils/imagePayload';
+import { cleanUpGarment, suggestGarmentTags } from '../services/geminiService';
+import { UploadIcon } from './icons/UploadIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { EMPTY_ATTRIBUTES, GarmentAttributesEditor } from './GarmentAttributesEditor';
+import { CategorySelect } from './CategorySelect';
+
+interface AddItemFormProps {
+  categories: string[];
+  onAddItem: (item: Omit<ClothingItem, 'id'>) => void;
+  onCreateCategory: (name: string) => Promise<void>;
+}
+
+export const AddItemForm: React.FC<AddItemFormProps> = ({ categories, onAddItem, onCreateCategory }) => {
+  const [newItemName, setNewItemName] = useState('');
+  const [newItemCategory, setNewItemCategory] = useState<ClothingCategory>('Tops');
+  const [newItemBrand, setNewItemBrand] = useState('');
+  const [newItemTags, setNewItemTags] = useState('');
+  const [newItemAttributes, setNewItemAttributes] = useState<GarmentAttributes>(EMPTY_ATTRIBUTES);
+  // Suggestions only fill fields the user has not edited themselves.
+  const nameEdited = useRef(false);
+  const categoryEdited = useRef(false);
+  const [isTagging, setIsTagging] = useState(false);
+  const [taggingError, setTaggingError] = useState<string | null>(null);
+  const [newItemImageData, setNewItemImageData] = useState<ImagePayload | null>(null);
+  const [cleanedImageData, setCleanedImageData] = useState<ImagePayload | null>(null);
+  const [useCleanedImage, setUseCleanedImage] = useState(true);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cleanupRequest = useRef<AbortController | null>(null);
+  const taggingRequest = useRef<AbortController | null>(null);
+
+  const resetCleanup = () => {
+    cleanupRequest.current?.abort();
+    cleanupRequest.current = null;
+    setCleanedImageData(null);
+    setUseCleanedImage(true);
+    setIsCleaning(false);
+  };
+
+  const cancelTagging = () => {
+    taggingRequest.current?.abort();
+    taggingRequest.current = null;
+    setIsTagging(false);
+    setTaggingError(null);
+  };
+
+  const suggestDetails = async (image: ImagePayload) => {
+    cancelTagging();
+    const controller = new AbortController();
+    taggingRequest.current = controller;
+    setIsTagging(true);
+    try {
+      const suggestion = await suggestGarmentTags(image, categories, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (!nameEdited.current) setNewItemName(suggestion.name);
+      if (!categoryEdited.current) setNewItemCategory(suggestion.category);
+      setNewItemAttributes(suggestion.attributes);
+    } catch (err) {
+      if (err instanceof CancelledError || controller.signal.aborted) return;
+      console.error(err);
+      setTaggingError('Details could not be suggested automatically. Please fill them in yourself.');
+    } finally {
+      if (taggingRequest.current === controller) {
+        taggingRequest.current = null;
+        setIsTagging(false);
+      }
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setImageError(null);
+      resetCleanup();
+      cancelTagging();
+      try {
+        const image = await preprocessImage(file);
+        setNewItemImageData(image);
+        suggestDetails(image);
+      } catch (err) {
+        console.error(err);
+        setNewItemImageData(null);
+        setImageError(err instanceof ImageValidationError ? err.message : 'This image could not be processed. Please try a different image.');
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleCleanUp = async () => {
+    if (!newItemImageData) return;
+    const controller = new AbortController();
+    cleanupRequest.current = controller;
+    setIsCleaning(true);
+    setImageError(null);
+    try {
+      const cleaned = await cleanUpGarment(newItemImageData, { signal: controller.signal });
+      const cropped = await cropToContent(cleaned);
+      if (controller.signal.aborted) return;
+      setCleanedImageData(cropped);
+      setUseCleanedImage(true);
+    } catch (err) {
+      if (err instanceof CancelledError || controller.signal.aborted) return;
+      console.error(err);
+      setImageError(err instanceof ApiError || err instanceof ImageValidationError
+        ? err.message
+        : 'The garment could not be cleaned up. You can still add the original image.');
+    } finally {
+      if (cleanupRequest.current === controller) {
+        cleanupRequest.current = null;
+        setIsCleaning(false);
+      }
+    }
+  };
+
+  const newItemImage = newItemImageData ? getObjectUrl(newItemImageData) : null;
+  const finalImageData = cleanedImageData && useCleanedImage ? cleanedImageData : newItemImageData;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newItemName && newItemCategory && finalImageData) {
+      onAddItem({
+        name: newItemName,
+        category: newItemCategory,
+        imageData: finalImageData,
+        attributes: newItemAttributes,
+        brand: newItemBrand.trim() || undefined,
+        tags: newItemTags.split(',').map(tag => tag.trim()).filter(Boolean),
+      });
+      // Reset form
+      setNewItemName('');
+      setNewItemCategory('Tops');
+      setNewItemBrand('');
+      setNewItemTags('');
+      setNewItemAttributes(EMPTY_ATTRIBUTES);
+      nameEdited.current = false;
+      categoryEdited.current = false;
+      setNewItemImageData(null);
+      resetCleanup();
+      cancelTagging();
+      if(fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 border border-dashed border-gray-600 rounded-lg mb-4">
+      <h4 className="text-md font-semibold mb-2 text-gray-400">Add Your Own Item</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+            <input
+                type="text"
+                placeholder="Item Name"
+                value={newItemName}
+                onChange={(e) => { setNewItemName(e.target.value); nameEdited.current = true; }}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                required
+            />
+            <CategorySelect
+                value={newItemCategory}
+                categories={categories}
+                onChange={(category) => { setNewItemCategory(category); categoryEdited.current = true; }}
+                onCreateCategory={onCreateCategory}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                  type="text"
+                  placeholder="Brand (optional)"
+                  value={newItemBrand}
+                  onChange={(e) => setNewItemBrand(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <input
+                  type="text"
+                  placeholder="Tags, comma separated"
+                  value={newItemTags}
+                  onChange={(e) => setNewItemTags(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+        </div>
+        <div className="flex items-center justify-center">
+            <label className="relative flex flex-col items-center justify-center w-full h-24 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-300 ease-in-out border-gray-600 bg-gray-800 hover:bg-gray-700/50">
+                {newItemImage ? (
+                    <img src={newItemImage} alt="New item preview" className="object-contain h-full w-full rounded-lg p-1"/>
+                ) : (
+                    <div className="flex flex-col items-center justify-center text-center">
+                        <UploadIcon className="w-8 h-8 mb-2 text-gray-500" />
+                        <p className="text-xs text-gray-400">Choose Image</p>
+                    </div>
+                )}
+                <input ref={fileInputRef} type="file" className="hidden" accept={ACCEPT_ATTRIBUTE} onChange={handleFileChange} required/>
+            </label>
+        </div>
+      </div>
+      {newItemImageData && !cleanedImageData && (
+        <button
+          type="button"
+          onClick={handleCleanUp}
+          disabled={isCleaning}
+          className="mt-3 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 disabled:cursor-wait text-gray-200 text-sm font-semibold py-1.5 rounded-md transition-colors"
+        >
+          <SparklesIcon className="w-4 h-4" />
+          {isCleaning ? 'Cleaning up garment...' : 'Clean up garment (remove background)'}
+        </button>
+      )}
+      {newItemImage && cleanedImageData && (
+        <div className="mt-3">
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { label: 'Original', src: newItemImage, isCleaned: false },
+              { label: 'Cleaned', src: getObjectUrl(cleanedImageData), isCleaned: true },
+            ].map(({ label, src, isCleaned }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setUseCleanedImage(isCleaned)}
+                className={`
+                  rounded-lg p-1 transition-colors
+                  ${useCleanedImage === isCleaned ? 'bg-indigo-600 ring-2 ring-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}
+                `}
+                aria-pressed={useCleanedImage === isCleaned}
+              >
+                <img src={src} alt={`${label} garment`} className="h-24 w-full object-contain rounded-md bg-white" />
+                <span className="text-xs font-medium text-gray-200">{label}</span>
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-400 text-center">Choose which image to save with the item.</p>
+        </div>
+      )}
+      {newItemImageData && (
+        <div className="mt-3 p-2 bg-gray-800 rounded-md">
+          <div className="flex items-center justify-between mb-2">
+            <h5 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Attributes</h5>
+            {isTagging && <span className="text-xs text-indigo-300 animate-pulse">Suggesting details...</span>}
+          </div>
+          <GarmentAttributesEditor attributes={newItemAttributes} onChange={setNewItemAttributes} />
+          {taggingError && <p className="mt-2 text-xs text-yellow-400">{taggingError}</p>}
+        </div>
+      )}
+      {imageError && (
+        <p className="mt-2 text-xs text-red-400" role="alert">{imageError}</p>
+      )}
+      <button type="submit" disabled={!newItemName || !finalImageData || isCleaning} className="mt-3 w-full bg-green-600 hover:bg-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 rounded-md transition-colors">
+        Add Item
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClothingItem } from '../data/clothingItems';
+import { BatchItemProgress, BatchItemStatus, runBatch } from '../services/batchRunner';
+import { SceneSettings } from '../data/scenePresets';
+import { ModelSubject } from '../types';
+import { ApiError, CancelledError } from '../utils/errors';
+
+interface BatchPanelProps {
+  items: ClothingItem[];
+  model: ModelSubject | null;
+  scene: SceneSettings;
+  onItemComplete: (progress: BatchItemProgress) => void;
+  onOpenResult: (progress: BatchItemProgress) => void;
+}
+
+type SortKey = 'score' | 'name' | 'status';
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  generating: 'Generating...',
+  analyzing: 'Analyzing...',
+  waiting: 'Rate limited, waiting...',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_ORDER: Record<BatchItemStatus, number> = {
+  done: 0, analyzing: 1, generating: 2, waiting: 3, queued: 4, failed: 5, cancelled: 6,
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ items, model, scene, onItemComplete, onOpenResult }) => {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [progress, setProgress] = useState<Record<number, BatchItemProgress>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const batchRequest = useRef<AbortController | null>(null);
+
+  // Closing the panel stops the batch instead of letting it spend quota in the background
+  useEffect(() => () => batchRequest.current?.abort(), []);
+
+  const categories = Array.from(new Set<string>(items.map(item => item.category)));
+
+  const toggleItem = (id: number) => {
+    setSelectedIds(prevIds => prevIds.includes(id) ? prevIds.filter(i => i !== id) : [...prevIds, id]);
+  };
+
+  const selectCategory = (category: string) => {
+    setSelectedIds(items.filter(item => item.category === category).map(item => item.id));
+  };
+
+  const handleRun = async () => {
+    if (!model || selectedIds.length === 0) return;
+    const batchItems = items.filter(item => selectedIds.includes(item.id));
+
+    const controller = new AbortController();
+    batchRequest.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setProgress({});
+    try {
+      await runBatch(model, scene, batchItems, {
+        concurrency,
+        signal: controller.signal,
+        onProgress: (itemProgress) => {
+          setProgress(prev => ({ ...prev, [itemProgress.item.id]: itemProgress }));
+          if (itemProgress.status === 'done') {
+            onItemComplete(itemProgress);
+          }
+        },
+      });
+    } catch (err) {
+      if (err instanceof CancelledError) return;
+      console.error(err);
+      setError(err instanceof ApiError ? err.message : 'The batch stopped unexpectedly. Please try again.');
+    } finally {
+      batchRequest.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    batchRequest.current?.abort();
+  };
+
+  const leaderboard = useMemo(() => {
+    const rows = Object.values(progress) as BatchItemProgress[];
+    return rows.sort((a, b) => {
+      if (sortKey === 'name') return a.item.name.localeCompare(b.item.name);
+      if (sortKey === 'status') return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+      return (b.trendResult?.score ?? -1) - (a.trendResult?.score ?? -1);
+    });
+  }, [progress, sortKey]);
+
+  const completedCount = leaderboard.filter(row => row.status === 'done' || row.status === 'failed' || row.status === 'cancelled').length;
+
+  return (
+    <section className="mt-8 bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700">
+      <h2 className="text-2xl font-bold mb-1 text-indigo-400">Batch Mode</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Style the current model in many items at once and rank them by trend score.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="text-sm text-gray-400">Select:</span>
+        {categories.map((category) => (
+          <button
+            key={category}
+            onClick={() => selectCategory(category)}
+            disabled={isRunning}
+            className="px-3 py-1 text-sm font-medium rounded-full bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+          >
+            All {category}
+          </button>
+        ))}
+        <button
+          onClick={() => setSelectedIds(items.map(item => item.id))}
+          disabled={isRunning}
+          className="px-3 py-1 text-sm font-medium rounded-full bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+        >
+          Everything
+        </button>
+        <button
+          onClick={() => setSelectedIds([])}
+          disabled={isRunning}
+          className="px-3 py-1 text-sm font-medium rounded-full bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4 max-h-32 overflow-y-auto">
+        {items.map((item) => (
+          <label key={item.id} className="flex items-center gap-1.5 px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(item.id)}
+              onChange={() => toggleItem(item.id)}
+              disabled={isRunning}
+              className="accent-indigo-500"
+            />
+            {item.name}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row items-center gap-4 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Parallel requests
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleRun}
+          disabled={!model || selectedIds.length === 0 || isRunning}
+          className="w-full sm:w-auto flex-1 px-6 py-2 text-md font-semibold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          {isRunning
+            ? `Running... (${completedCount}/${leaderboard.length})`
+            : `Run Batch (${selectedIds.length} item${selectedIds.length === 1 ? '' : 's'})`}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleCancel}
+            className="w-full sm:w-auto px-6 py-2 text-md font-semibold rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-all"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400 mb-4" role="alert">{error}</p>}
+      {!model && <p className="text-xs text-gray-500 mb-4">Pick a model profile to enable batch mode.</p>}
+
+      {leaderboard.length > 0 && (
+        <table className="w-full text-sm text-left">
+          <thead className="text-gray-400 border-b border-gray-700">
+            <tr>
+              <th className="py-2 w-10">#</th>
+              {(['name', 'status', 'score'] as SortKey[]).map((key) => (
+                <th key={key} className="py-2">
+                  <button
+                    onClick={() => setSortKey(key)}
+                    className={`capitalize ${sortKey === key ? 'text-indigo-400 font-semibold' : 'hover:text-gray-200'}`}
+                  >
+                    {key === 'name' ? 'Item' : key}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.map((row, index) => (
+              <tr key={row.item.id} className="border-b border-gray-700/50">
+                <td className="py-2 text-gray-500">{index + 1}</td>
+                <td className="py-2">
+                  {row.status === 'done' ? (
+                    <button onClick={() => onOpenResult(row)} className="text-indigo-300 hover:underline">
+                      {row.item.name}
+                    </button>
+                  ) : (
+                    <span className="text-gray-200">{row.item.name}</span>
+                  )}
+                </td>
+                <td className={`py-2 ${row.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`} title={row.error}>
+                  {STATUS_LABELS[row.status]}
+                </td>
+                <td className="py-2 font-bold text-gray-200">{row.trendResult?.score ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { GenerationBlock } from '../utils/errors';
+import { explainBlock, formatSafetyCategory } from '../utils/safetyGuidance';
+
+interface BlockedNoticeProps {
+  block: GenerationBlock;
+}
+
+// Shown in place of the generic error panel when the AI refused or filtered a request
+export const BlockedNotice: React.FC<BlockedNoticeProps> = ({ block }) => {
+  const { title, guidance } = explainBlock(block);
+
+  return (
+    <div className="text-left text-amber-100 bg-amber-900/40 border border-amber-700/60 p-4 rounded-lg w-full">
+      <h3 className="font-bold text-lg text-amber-300">{title}</h3>
+      <p className="mt-1 text-sm">{guidance}</p>
+      {block.categories.length > 0 && (
+        <p className="mt-2 text-xs text-amber-200/80">
+          Flagged as: {block.categories.map(formatSafetyCategory).join(', ')}
+        </p>
+      )}
+      {block.modelMessage && (
+        <blockquote className="mt-2 text-xs italic text-gray-300 border-l-2 border-amber-700 pl-2">
+          {block.modelMessage}
+        </blockquote>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ClothingItem } from '../data/clothingItems';
+import { XIcon } from './icons/XIcon';
+
+interface CatalogBulkActionsProps {
+  items: ClothingItem[];
+  visibleIds: number[];
+  checkedIds: number[];
+  categories: string[];
+  canReorder: boolean;
+  onCheckedChange: (ids: number[]) => void;
+  onRemove: () => void;
+  onRecategorize: (category: string) => void;
+  onCreateCategory: (name: string) => Promise<void>;
+  onRemoveCategory: (name: string) => void;
+}
+
+const actionClassName = 'bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700/50 disabled:text-gray-500 disabled:cursor-not-allowed text-gray-200 font-semibold px-2 py-1 rounded-md transition-colors';
+
+export const CatalogBulkActions: React.FC<CatalogBulkActionsProps> = ({
+  items, visibleIds, checkedIds, categories, canReorder, onCheckedChange, onRemove, onRecategorize, onCreateCategory, onRemoveCategory,
+}) => {
+  const [newCategory, setNewCategory] = useState('');
+  const usedCategories = new Set(items.map(item => item.category));
+  const hasChecked = checkedIds.length > 0;
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCategory.trim();
+    if (!name || categories.some(category => category.toLowerCase() === name.toLowerCase())) return;
+    await onCreateCategory(name);
+    setNewCategory('');
+  };
+
+  return (
+    <div className="mb-3 p-2 bg-gray-900/60 rounded-md space-y-2 text-xs text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">{checkedIds.length} selected</span>
+        <button onClick={() => onCheckedChange(visibleIds)} className={actionClassName}>Select all</button>
+        <button onClick={() => onCheckedChange([])} disabled={!hasChecked} className={actionClassName}>Clear</button>
+        <select
+          value=""
+          disabled={!hasChecked}
+          onChange={(e) => e.target.value && onRecategorize(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-300 disabled:text-gray-500"
+          aria-label="Move selected items to category"
+        >
+          <option value="">Move to category...</option>
+          {categories.map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+        <button onClick={onRemove} disabled={!hasChecked} className="bg-red-600/80 hover:bg-red-500 disabled:bg-gray-700/50 disabled:text-gray-500 disabled:cursor-not-allowed text-white font-semibold px-2 py-1 rounded-md transition-colors">
+          Remove selected
+        </button>
+      </div>
+      <p className="text-gray-400">
+        {canReorder ? 'Drag items to change their order.' : 'Sort by "My order" to drag items into place.'}
+      </p>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="font-semibold text-gray-400 uppercase tracking-wide mr-1">Categories</span>
+        {categories.map(category => (
+          <span key={category} className="flex items-center gap-1 bg-gray-700 rounded-full pl-2 pr-1 py-0.5">
+            {category}
+            {/* Only unused categories can be removed, so no item is left without one */}
+            {!usedCategories.has(category) && (
+              <button onClick={() => onRemoveCategory(category)} className="text-gray-400 hover:text-red-400" aria-label={`Remove category ${category}`}>
+                <XIcon className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <form onSubmit={handleAddCategory} className="flex gap-1">
+          <input
+            type="text"
+            placeholder="New category"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            className="w-28 bg-gray-700 border border-gray-600 rounded-full px-2 py-0.5 text-xs focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button type="submit" disabled={!newCategory.trim()} className={actionClassName}>Add</button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { ClothingItem } from '../data/clothingItems';
+import { downloadCatalogBundle, ImportedItem, ImportMode, ImportPreview, prepareImport, selectItemsToImport } from '../services/catalogBundle';
+import { CatalogImportError, ImageValidationError } from '../utils/errors';
+
+interface CatalogTransferProps {
+  items: ClothingItem[];
+  categories: string[];
+  onImport: (items: ImportedItem[], mode: ImportMode) => Promise<void>;
+}
+
+export const CatalogTransfer: React.FC<CatalogTransferProps> = ({ items, categories, onImport }) => {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [status, setStatus] = useState<'idle' | 'reading' | 'importing' | 'exporting'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setStatus('exporting');
+    setError(null);
+    try {
+      await downloadCatalogBundle(items);
+    } catch (err) {
+      console.error(err);
+      setError('The catalog could not be exported.');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setStatus('reading');
+    setError(null);
+    setNotice(null);
+    setPreview(null);
+    try {
+      setPreview(await prepareImport(file, items, categories));
+      setMode('merge');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof CatalogImportError || err instanceof ImageValidationError
+        ? err.message
+        : 'This file could not be imported.');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    const toImport = selectItemsToImport(preview, mode);
+    setStatus('importing');
+    try {
+      await onImport(toImport, mode);
+      setNotice(`Imported ${toImport.length} item${toImport.length === 1 ? '' : 's'}.`);
+      setPreview(null);
+    } catch (err) {
+      console.error(err);
+      setError('The import could not be saved. Your catalog was not changed.');
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const duplicates = preview?.candidates.filter(candidate => candidate.duplicateOf) ?? [];
+  const importCount = preview ? selectItemsToImport(preview, mode).length : 0;
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={status !== 'idle'}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:cursor-wait text-gray-200 text-xs font-semibold py-1.5 rounded-md transition-colors"
+        >
+          {status === 'reading' ? 'Reading file...' : 'Import catalog'}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={status !== 'idle' || items.length === 0}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-700/50 disabled:text-gray-500 disabled:cursor-not-allowed text-gray-200 text-xs font-semibold py-1.5 rounded-md transition-colors"
+        >
+          {status === 'exporting' ? 'Exporting...' : 'Export catalog (.zip)'}
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" accept=".zip,.csv,application/zip,text/csv" onChange={handleFileChange} />
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400" role="alert">{error}</p>}
+      {notice && <p className="mt-2 text-xs text-green-400">{notice}</p>}
+
+      {preview && (
+        <div className="mt-2 p-3 bg-gray-900/60 rounded-md text-xs text-gray-300 space-y-2">
+          <p>
+            Found <strong>{preview.candidates.length}</strong> valid item{preview.candidates.length === 1 ? '' : 's'}
+            {duplicates.length > 0 && <>, {duplicates.length} already in your catalog</>}.
+          </p>
+          {preview.errors.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-yellow-400">{preview.errors.length} skipped</summary>
+              <ul className="mt-1 max-h-24 overflow-y-auto list-disc list-inside text-gray-400">
+                {preview.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </details>
+          )}
+          <div className="flex gap-3">
+            {([
+              ['merge', 'Merge (skip duplicates)'],
+              ['replace', 'Replace current catalog'],
+            ] as [ImportMode, string][]).map(([value, label]) => (
+              <label key={value} className="flex items-center gap-1">
+                <input type="radio" name="import-mode" checked={mode === value} onChange={() => setMode(value)} className="accent-indigo-500" />
+                {label}
+              </label>
+            ))}
+          </div>
+          {mode === 'replace' && (
+            <p className="text-yellow-400">All {items.length} current items will be removed.</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              disabled={status !== 'idle' || (importCount === 0 && mode === 'merge')}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-1.5 rounded-md transition-colors"
+            >
+              {status === 'importing' ? 'Importing...' : `Import ${importCount} item${importCount === 1 ? '' : 's'}`}
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              disabled={status !== 'idle'}
+              className="px-3 bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+
+interface CategorySelectProps {
+  value: string;
+  categories: string[];
+  onChange: (category: string) => void;
+  onCreateCategory: (name: string) => Promise<void>;
+  className?: string;
+}
+
+const NEW_CATEGORY = '__new__';
+
+// A category picker whose last option lets the user add a category of their own
+export const CategorySelect: React.FC<CategorySelectProps> = ({ value, categories, onChange, onCreateCategory, className = '' }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  // An item may still use a category that has since been removed from the list
+  const options = value && !categories.includes(value) ? [...categories, value] : categories;
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const existing = categories.find(category => category.toLowerCase() === name.toLowerCase());
+    if (!existing) await onCreateCategory(name);
+    onChange(existing ?? name);
+    setNewName('');
+    setIsCreating(false);
+  };
+
+  if (isCreating) {
+    return (
+      <div className={`flex gap-1 ${className}`}>
+        <input
+          type="text"
+          autoFocus
+          placeholder="New category"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            } else if (e.key === 'Escape') {
+              setIsCreating(false);
+            }
+          }}
+          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button type="button" onClick={handleCreate} className="px-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold rounded-md">
+          Add
+        </button>
+        <button type="button" onClick={() => setIsCreating(false)} className="px-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded-md">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => (e.target.value === NEW_CATEGORY ? setIsCreating(true) : onChange(e.target.value))}
+      className={`w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500 ${className}`}
+    >
+      {options.map(category => <option key={category} value={category}>{category}</option>)}
+      <option value={NEW_CATEGORY}>+ New category...</option>
+    </select>
+  );
+};
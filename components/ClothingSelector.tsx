@@ -1,183 +1,358 @@
-import React, { useState, useRef } from 'react';
-import { ClothingItem } from '../data/clothingItems';
-import { convertFileToBase64 } from '../utils/fileUtils';
-import { UploadIcon } from './icons/UploadIcon';
+import React, { useMemo, useState } from 'react';
+import { ClothingItem, SEASONS } from '../data/clothingItems';
+import { getObjectUrl } from '../utils/imagePayload';
+import { CatalogFilters, CatalogSort, EMPTY_FILTERS, filterCatalog, getFacetOptions, hasActiveFilters, moveItem, sortCatalog } from '../utils/catalogFilters';
+import { ImportedItem, ImportMode } from '../services/catalogBundle';
+import { AddItemForm } from './AddItemForm';
+import { CatalogTransfer } from './CatalogTransfer';
+import { CatalogBulkActions } from './CatalogBulkActions';
+import { ItemEditor } from './ItemEditor';
+import { VirtualGrid } from './VirtualGrid';
 import { XIcon } from './icons/XIcon';
+import { PencilIcon } from './icons/PencilIcon';
 
 interface ClothingSelectorProps {
   title: string;
   items: ClothingItem[];
-  selectedId: number | null;
-  onSelect: (id: number, imageData: string) => void;
+  categories: string[];
+  bestScores: Map<number, number>;
+  selectedIds: number[];
+  isOutfitMode: boolean;
+  onOutfitModeChange: (isOutfitMode: boolean) => void;
+  onSelect: (item: ClothingItem) => void;
   onAddItem: (item: Omit<ClothingItem, 'id'>) => void;
-  onRemoveItem: (id: number) => void;
+  onUpdateItems: (items: ClothingItem[]) => void;
+  onRemoveItems: (ids: number[]) => void;
+  onImportItems: (items: ImportedItem[], mode: ImportMode) => Promise<void>;
+  onCreateCategory: (name: string) => Promise<void>;
+  onRemoveCategory: (name: string) => void;
 }
 
-const AddItemForm: React.FC<{ onAddItem: (item: Omit<ClothingItem, 'id'>) => void }> = ({ onAddItem }) => {
-  const [newItemName, setNewItemName] = useState('');
-  const [newItemCategory, setNewItemCategory] = useState<'Outerwear' | 'Dresses' | 'Tops' | 'Bottoms'>('Tops');
-  const [newItemImage, setNewItemImage] = useState<string | null>(null);
-  const [newItemImageData, setNewItemImageData] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const base64 = await convertFileToBase64(file);
-      const mimeType = base64.split(';')[0].split(':')[1];
-      const data = base64.split(',')[1];
-      setNewItemImage(base64);
-      setNewItemImageData(JSON.stringify({ mimeType, data }));
-    }
+type FacetKey = 'categories' | 'colors' | 'seasons' | 'brands';
+
+const SORT_OPTIONS: { value: CatalogSort; label: string }[] = [
+  { value: 'custom', label: 'My order' },
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'name', label: 'Name' },
+  { value: 'score', label: 'Best trend score' },
+];
+
+const pillClassName = (isActive: boolean, size = 'px-3 py-1 text-sm') => `
+  ${size} font-medium rounded-full transition-colors duration-200 flex-shrink-0
+  ${isActive
+    ? 'bg-indigo-600 text-white'
+    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+  }
+`;
+
+export const ClothingSelector: React.FC<ClothingSelectorProps> = ({
+  title, items, categories, bestScores, selectedIds, isOutfitMode, onOutfitModeChange, onSelect,
+  onAddItem, onUpdateItems, onRemoveItems, onImportItems, onCreateCategory, onRemoveCategory,
+}) => {
+  const [filters, setFilters] = useState<CatalogFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<CatalogSort>('custom');
+  const [showFilters, setShowFilters] = useState(false);
+  // Manage mode turns clicks into multi-selection for bulk actions instead of picking garments
+  const [isManaging, setIsManaging] = useState(false);
+  const [checkedIds, setCheckedIds] = useState<number[]>([]);
+  const [editingItem, setEditingItem] = useState<ClothingItem | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  const facetOptions = useMemo(() => getFacetOptions(items), [items]);
+  // Category pills follow the user's category list; only categories in use get one
+  const categoryOptions = useMemo(() => [
+    ...categories.filter(category => facetOptions.categories.includes(category)),
+    ...facetOptions.categories.filter(category => !categories.includes(category)),
+  ], [categories, facetOptions]);
+  const visibleItems = useMemo(
+    () => sortCatalog(filterCatalog(items, filters), sort, bestScores),
+    [items, filters, sort, bestScores]
+  );
+
+  const toggleFacetValue = (facet: FacetKey, value: string) => {
+    setFilters(prev => {
+      const values: string[] = prev[facet];
+      const next = values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+      return { ...prev, [facet]: next };
+    });
+  };
+
+  const attributeFacets: { key: FacetKey; label: string; options: readonly string[] }[] = [
+    { key: 'colors', label: 'Color', options: facetOptions.colors },
+    { key: 'seasons', label: 'Season', options: SEASONS },
+    { key: 'brands', label: 'Brand', options: facetOptions.brands },
+  ];
+  const activeAttributeFilters = filters.colors.length + filters.seasons.length + filters.brands.length;
+
+  const toggleChecked = (id: number) => {
+    setCheckedIds(prev => (prev.includes(id) ? prev.filter(checkedId => checkedId !== id) : [...prev, id]));
+  };
+
+  const handleManageToggle = () => {
+    setIsManaging(prev => !prev);
+    setCheckedIds([]);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newItemName && newItemCategory && newItemImageData) {
-      onAddItem({
-        name: newItemName,
-        category: newItemCategory,
-        imageData: newItemImageData,
-      });
-      // Reset form
-      setNewItemName('');
-      setNewItemCategory('Tops');
-      setNewItemImage(null);
-      setNewItemImageData(null);
-      if(fileInputRef.current) fileInputRef.current.value = '';
+  const handleBulkRemove = () => {
+    onRemoveItems(checkedIds);
+    setCheckedIds([]);
+  };
+
+  const handleBulkRecategorize = (category: string) => {
+    onUpdateItems(items.filter(item => checkedIds.includes(item.id)).map(item => ({ ...item, category })));
+  };
+
+  const handleDrop = (targetId: number) => {
+    if (draggedId !== null && draggedId !== targetId) {
+      const reordered = moveItem(items, draggedId, targetId);
+      if (reordered !== items) onUpdateItems(reordered);
     }
+    setDraggedId(null);
   };
 
-  return (
-    <form onSubmit={handleSubmit} className="p-3 border border-dashed border-gray-600 rounded-lg mb-4">
-      <h4 className="text-md font-semibold mb-2 text-gray-400">Add Your Own Item</h4>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        <div className="space-y-2">
-            <input
-                type="text"
-                placeholder="Item Name"
-                value={newItemName}
-                onChange={(e) => setNewItemName(e.target.value)}
-                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
-                required
+  // Reordering only makes sense while the grid shows the user's own order
+  const canReorder = sort === 'custom';
+
+  const renderItem = (item: ClothingItem) => {
+    const src = getObjectUrl(item.imageData);
+    const isSelected = isManaging ? checkedIds.includes(item.id) : selectedIds.includes(item.id);
+    const bestScore = bestScores.get(item.id);
+
+    return (
+      <div
+        className={`relative w-full h-full group ${draggedId === item.id ? 'opacity-40' : ''}`}
+        draggable={canReorder}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedId(item.id);
+        }}
+        onDragEnd={() => setDraggedId(null)}
+        onDragOver={(e) => {
+          if (draggedId !== null) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(item.id);
+        }}
+      >
+        <button
+          onClick={() => (isManaging ? toggleChecked(item.id) : onSelect(item))}
+          className={`
+            w-full h-full rounded-lg p-1.5 transition-all duration-200 ease-in-out
+            flex flex-col justify-between items-center
+            focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500
+            ${isSelected ? 'bg-indigo-600 ring-2 ring-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}
+          `}
+          aria-pressed={isSelected}
+          aria-label={`Select ${item.name}`}
+        >
+          <div className="w-full h-24 flex items-center justify-center">
+            <img
+              src={src}
+              alt={item.name}
+              loading="lazy"
+              decoding="async"
+              className="max-w-full max-h-full object-contain rounded-md"
             />
-            <select
-                value={newItemCategory}
-                onChange={(e) => setNewItemCategory(e.target.value as any)}
-                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
-                required
-            >
-                <option>Outerwear</option>
-                <option>Dresses</option>
-                <option>Tops</option>
-                <option>Bottoms</option>
-            </select>
-        </div>
-        <div className="flex items-center justify-center">
-            <label className="relative flex flex-col items-center justify-center w-full h-24 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-300 ease-in-out border-gray-600 bg-gray-800 hover:bg-gray-700/50">
-                {newItemImage ? (
-                    <img src={newItemImage} alt="New item preview" className="object-contain h-full w-full rounded-lg p-1"/>
-                ) : (
-                    <div className="flex flex-col items-center justify-center text-center">
-                        <UploadIcon className="w-8 h-8 mb-2 text-gray-500" />
-                        <p className="text-xs text-gray-400">Choose Image</p>
-                    </div>
-                )}
-                <input ref={fileInputRef} type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleFileChange} required/>
-            </label>
+          </div>
+          <p className="mt-1 text-xs font-medium text-center text-gray-200 truncate w-full px-1">
+            {item.name}
+          </p>
+          {item.brand && (
+            <p className="text-[10px] text-gray-400 truncate w-full px-1 text-center">{item.brand}</p>
+          )}
+        </button>
+        {isManaging && (
+          <span className={`absolute bottom-1 right-1 w-4 h-4 rounded border-2 ${isSelected ? 'bg-indigo-400 border-indigo-200' : 'border-gray-400'}`} aria-hidden="true" />
+        )}
+        {bestScore !== undefined && (
+          <span className="absolute top-1 left-1 bg-gray-900/80 text-indigo-300 text-[10px] font-semibold rounded px-1" title="Best trend score">
+            {bestScore}
+          </span>
+        )}
+        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setEditingItem(item);
+            }}
+            className="bg-gray-900/70 hover:bg-gray-600 text-white rounded-full p-1"
+            aria-label={`Edit ${item.name}`}
+          >
+            <PencilIcon className="w-3 h-3" />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemoveItems([item.id]);
+            }}
+            className="bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5"
+            aria-label={`Remove ${item.name}`}
+          >
+            <XIcon className="w-4 h-4" />
+          </button>
         </div>
       </div>
-      <button type="submit" disabled={!newItemName || !newItemImageData} className="mt-3 w-full bg-green-600 hover:bg-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 rounded-md transition-colors">
-        Add Item
-      </button>
-    </form>
-  );
-};
-
-
-export const ClothingSelector: React.FC<ClothingSelectorProps> = ({ title, items, selectedId, onSelect, onAddItem, onRemoveItem }) => {
-  const [selectedCategory, setSelectedCategory] = useState('All');
-  
-  const categories = ['All', ...Array.from(new Set(items.map(item => item.category)))];
-
-  const filteredItems = selectedCategory === 'All' 
-    ? items 
-    : items.filter(item => item.category === selectedCategory);
+    );
+  };
 
   return (
     <div>
       <h3 className="text-lg font-semibold mb-2 text-gray-300">{title}</h3>
       <div className="bg-gray-800 rounded-lg p-3 border-2 border-dashed border-gray-600 flex flex-col">
-        <AddItemForm onAddItem={onAddItem} />
+        <CatalogTransfer items={items} categories={categories} onImport={onImportItems} />
+        <AddItemForm categories={categories} onAddItem={onAddItem} onCreateCategory={onCreateCategory} />
 
-        <div className="flex items-center gap-2 mb-3 border-b border-gray-700 pb-3 overflow-x-auto">
-          {categories.map((category) => (
+        <div className="flex items-center gap-2 mb-3">
+          {[false, true].map((outfitMode) => (
             <button
-              key={category}
-              onClick={() => setSelectedCategory(category)}
+              key={String(outfitMode)}
+              onClick={() => onOutfitModeChange(outfitMode)}
               className={`
-                px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 flex-shrink-0
-                ${selectedCategory === category
+                flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200
+                ${isOutfitMode === outfitMode
                   ? 'bg-indigo-600 text-white'
                   : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
                 }
               `}
+              aria-pressed={isOutfitMode === outfitMode}
+            >
+              {outfitMode ? 'Outfit' : 'Single Item'}
+            </button>
+          ))}
+        </div>
+        {isOutfitMode && (
+          <p className="text-xs text-gray-400 mb-3">
+            Pick one item per category. A dress replaces a top and bottom.
+          </p>
+        )}
+
+        <div className="flex items-center gap-2 mb-3">
+          <input
+            type="search"
+            placeholder="Search name, brand or tags"
+            value={filters.query}
+            onChange={(e) => setFilters(prev => ({ ...prev, query: e.target.value }))}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Search catalog"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as CatalogSort)}
+            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-sm text-gray-300 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Sort catalog"
+          >
+            {SORT_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2 mb-3 border-b border-gray-700 pb-3 overflow-x-auto">
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, categories: [] }))}
+            className={pillClassName(filters.categories.length === 0)}
+          >
+            All
+          </button>
+          {categoryOptions.map((category) => (
+            <button
+              key={category}
+              onClick={() => toggleFacetValue('categories', category)}
+              className={pillClassName(filters.categories.includes(category))}
+              aria-pressed={filters.categories.includes(category)}
             >
               {category}
             </button>
           ))}
         </div>
-        <div className="h-40 flex items-center gap-3 overflow-x-auto">
-          {filteredItems.length > 0 ? (
-            filteredItems.map((item) => {
-              const parsed = JSON.parse(item.imageData);
-              const src = `data:${parsed.mimeType};base64,${parsed.data}`;
-              const isSelected = item.id === selectedId;
-
-              return (
-                <div key={item.id} className="relative flex-shrink-0 w-32 h-full group">
-                  <button
-                    onClick={() => onSelect(item.id, item.imageData)}
-                    className={`
-                      w-full h-full rounded-lg p-1.5 transition-all duration-200 ease-in-out
-                      flex flex-col justify-between items-center
-                      focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500
-                      ${isSelected ? 'bg-indigo-600 ring-2 ring-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}
-                    `}
-                    aria-pressed={isSelected}
-                    aria-label={`Select ${item.name}`}
-                  >
-                    <div className="w-full h-24 flex items-center justify-center">
-                      <img
-                        src={src}
-                        alt={item.name}
-                        className="max-w-full max-h-full object-contain rounded-md"
-                      />
-                    </div>
-                    <p className="mt-1 text-xs font-medium text-center text-gray-200 truncate w-full px-1">
-                      {item.name}
-                    </p>
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onRemoveItem(item.id);
-                    }}
-                    className="absolute top-1 right-1 bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                    aria-label={`Remove ${item.name}`}
-                  >
-                    <XIcon className="w-4 h-4" />
-                  </button>
-                </div>
-              );
-            })
-          ) : (
-            <div className="w-full text-center text-gray-500">
-              No items in this category.
-            </div>
-          )}
+
+        <div className="flex items-center justify-between mb-3 text-xs text-gray-400">
+          <button onClick={() => setShowFilters(prev => !prev)} className="font-medium text-indigo-300 hover:text-indigo-200" aria-expanded={showFilters}>
+            {showFilters ? 'Hide filters' : 'More filters'}{activeAttributeFilters > 0 && ` (${activeAttributeFilters})`}
+          </button>
+          <button onClick={handleManageToggle} className="font-medium text-indigo-300 hover:text-indigo-200" aria-pressed={isManaging}>
+            {isManaging ? 'Done' : 'Manage'}
+          </button>
+          <span>
+            {visibleItems.length} of {items.length} items
+            {hasActiveFilters(filters) && (
+              <button onClick={() => setFilters(EMPTY_FILTERS)} className="ml-2 text-indigo-300 hover:text-indigo-200">
+                Clear
+              </button>
+            )}
+          </span>
         </div>
+        {showFilters && (
+          <div className="space-y-2 mb-3">
+            {attributeFacets.map(({ key, label, options }) => (
+              <div key={key} className="flex items-center gap-2 overflow-x-auto">
+                <span className="text-xs font-semibold text-gray-400 uppercase tracking-wide w-14 flex-shrink-0">{label}</span>
+                {options.length > 0 ? options.map((option) => {
+                  const isActive = (filters[key] as string[]).includes(option);
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => toggleFacetValue(key, option)}
+                      className={pillClassName(isActive, 'px-2 py-0.5 text-xs')}
+                      aria-pressed={isActive}
+                    >
+                      {option}
+                    </button>
+                  );
+                }) : (
+                  <span className="text-xs text-gray-500">None tagged yet</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isManaging && (
+          <CatalogBulkActions
+            items={items}
+            visibleIds={visibleItems.map(item => item.id)}
+            checkedIds={checkedIds}
+            categories={categories}
+            canReorder={canReorder}
+            onCheckedChange={setCheckedIds}
+            onRemove={handleBulkRemove}
+            onRecategorize={handleBulkRecategorize}
+            onCreateCategory={onCreateCategory}
+            onRemoveCategory={onRemoveCategory}
+          />
+        )}
+
+        {visibleItems.length > 0 ? (
+          <VirtualGrid
+            items={visibleItems}
+            height={320}
+            rowHeight={152}
+            minColumnWidth={112}
+            getKey={(item) => item.id}
+            renderItem={renderItem}
+          />
+        ) : (
+          <div className="h-40 flex items-center justify-center text-center text-gray-500">
+            No items match these filters.
+          </div>
+        )}
       </div>
+      {editingItem && (
+        <ItemEditor
+          item={editingItem}
+          categories={categories}
+          onSave={(item) => {
+            onUpdateItems([item]);
+            setEditingItem(null);
+          }}
+          onRemove={(id) => {
+            onRemoveItems([id]);
+            setEditingItem(null);
+          }}
+          onCreateCategory={onCreateCategory}
+          onClose={() => setEditingItem(null)}
+        />
+      )}
     </div>
   );
 };
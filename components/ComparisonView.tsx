@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LookRecord, PairwiseVerdict } from '../types';
+import { judgeLooks } from '../services/geminiService';
+import { ApiError, CancelledError } from '../utils/errors';
+import { getObjectUrl } from '../utils/imagePayload';
+import { TrendScoreGauge } from './TrendScoreGauge';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { XIcon } from './icons/XIcon';
+
+interface ComparisonViewProps {
+  looks: LookRecord[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// A verdict only ever describes the two looks it was asked about
+interface JudgedPair {
+  lookIds: [string, string];
+  verdict: PairwiseVerdict;
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ looks, onRemove, onClear }) => {
+  const [pair, setPair] = useState<[number, number]>([0, 1]);
+  const [judged, setJudged] = useState<JudgedPair | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const judgeRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => () => judgeRequest.current?.abort(), []);
+
+  // Keep the judged pair valid as looks are removed from the comparison
+  const indexA = Math.min(pair[0], looks.length - 1);
+  const indexB = Math.min(pair[1], looks.length - 1);
+  const lookA = looks[indexA];
+  const lookB = looks[indexB];
+
+  // Drops the verdict and any judgement still in flight, whose answer would be about the old pair
+  const resetJudgement = () => {
+    judgeRequest.current?.abort();
+    judgeRequest.current = null;
+    setJudged(null);
+    setIsJudging(false);
+    setError(null);
+  };
+
+  const handlePairChange = (slot: 0 | 1, index: number) => {
+    const nextPair: [number, number] = slot === 0 ? [index, indexB] : [indexA, index];
+    setPair(nextPair);
+    resetJudgement();
+  };
+
+  const handleRemove = (id: string) => {
+    resetJudgement();
+    onRemove(id);
+  };
+
+  const handleJudge = async () => {
+    if (!lookA || !lookB || lookA.id === lookB.id) return;
+    judgeRequest.current?.abort();
+    const controller = new AbortController();
+    judgeRequest.current = controller;
+    const lookIds: [string, string] = [lookA.id, lookB.id];
+    setIsJudging(true);
+    setError(null);
+    setJudged(null);
+    try {
+      const result = await judgeLooks(lookA.generatedImage, lookB.generatedImage, { signal: controller.signal });
+      if (judgeRequest.current === controller) {
+        setJudged({ lookIds, verdict: result });
+      }
+    } catch (err) {
+      if (err instanceof CancelledError || judgeRequest.current !== controller) return;
+      console.error(err);
+      setError(err instanceof ApiError ? err.message : 'An unexpected error occurred while judging. Please try again.');
+    } finally {
+      if (judgeRequest.current === controller) {
+        judgeRequest.current = null;
+        setIsJudging(false);
+      }
+    }
+  };
+
+  // Looks can also leave the comparison from the history gallery, which shifts the pair
+  const verdict = judged && judged.lookIds[0] === lookA?.id && judged.lookIds[1] === lookB?.id ? judged.verdict : null;
+
+  const winnerName = verdict && verdict.winner !== 'tie'
+    ? (verdict.winner === 'A' ? lookA : lookB).clothingItemName
+    : null;
+
+  return (
+    <section className="mt-8 bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-indigo-400">Compare Looks</h2>
+        <button onClick={onClear} className="px-3 py-1 text-sm font-medium rounded-full bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors">
+          Clear
+        </button>
+      </div>
+
+      <div className={`grid grid-cols-1 sm:grid-cols-2 ${looks.length > 2 ? 'lg:grid-cols-4' : ''} gap-4`}>
+        {looks.map((look, index) => {
+          const src = getObjectUrl(look.generatedImage);
+          const label = index === indexA ? 'A' : index === indexB ? 'B' : null;
+
+          return (
+            <div key={look.id} className="relative bg-gray-700/50 rounded-lg p-3 flex flex-col items-center">
+              {label && (
+                <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-bold rounded-full bg-indigo-600 text-white">{label}</span>
+              )}
+              <button
+                onClick={() => handleRemove(look.id)}
+                className="absolute top-2 right-2 bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5"
+                aria-label={`Remove ${look.clothingItemName} from comparison`}
+              >
+                <XIcon className="w-4 h-4" />
+              </button>
+              <img src={src} alt={look.clothingItemName} className="w-full max-h-64 object-contain rounded-md mb-2" />
+              <p className="text-sm font-semibold text-gray-200 text-center mb-2">{look.clothingItemName}</p>
+              {look.trendResult ? (
+                <>
+                  <TrendScoreGauge score={look.trendResult.score} />
+                  <p className="mt-2 text-xs text-gray-400 leading-relaxed">{look.trendResult.analysis}</p>
+                </>
+              ) : (
+                <p className="text-xs text-gray-500">Not analyzed yet.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 border-t border-gray-700 pt-4">
+        <h3 className="text-lg font-semibold mb-2 text-gray-300">Pairwise Judge</h3>
+        <div className="flex flex-col sm:flex-row items-center gap-3">
+          {([0, 1] as const).map((slot) => (
+            <select
+              key={slot}
+              value={slot === 0 ? indexA : indexB}
+              onChange={(e) => handlePairChange(slot, Number(e.target.value))}
+              className="w-full sm:w-auto bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm"
+              aria-label={`Look ${slot === 0 ? 'A' : 'B'}`}
+            >
+              {looks.map((look, index) => (
+                <option key={look.id} value={index}>{`${slot === 0 ? 'A' : 'B'}: ${look.clothingItemName}`}</option>
+              ))}
+            </select>
+          ))}
+          <button
+            onClick={handleJudge}
+            disabled={isJudging || indexA === indexB}
+            className="w-full sm:w-auto px-6 py-2 text-md font-semibold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-all flex items-center justify-center gap-2 disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            <SparklesIcon className="w-5 h-5" />
+            {isJudging ? 'Judging...' : 'Which is more on-trend?'}
+          </button>
+        </div>
+        {error && (
+          <div className="mt-3 text-center text-red-400 bg-red-900/50 p-3 rounded-lg">
+            <p>{error}</p>
+          </div>
+        )}
+        {verdict && (
+          <div className="mt-3 bg-gray-700/50 rounded-lg p-4">
+            <p className="font-bold text-indigo-300">
+              {winnerName ? `Look ${verdict.winner} wins: ${winnerName}` : "It's a tie"}
+              <span className="ml-2 text-xs font-normal text-gray-400">({verdict.confidence}% confident)</span>
+            </p>
+            <p className="mt-1 text-sm text-gray-300">{verdict.reasoning}</p>
+            {verdict.differentiators.length > 0 && (
+              <ul className="mt-2 list-disc list-inside space-y-0.5 text-sm text-gray-400">
+                {verdict.differentiators.map((point) => (
+                  <li key={point}>{point}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
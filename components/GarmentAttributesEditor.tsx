@@ -0,0 +1,70 @@
+import React from 'react';
+import { GarmentAttributes, SEASONS, Season } from '../data/clothingItems';
+
+interface GarmentAttributesEditorProps {
+  attributes: GarmentAttributes;
+  onChange: (attributes: GarmentAttributes) => void;
+}
+
+export const EMPTY_ATTRIBUTES: GarmentAttributes = { colors: [], pattern: '', material: '', seasons: [] };
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs focus:ring-indigo-500 focus:border-indigo-500';
+
+export const GarmentAttributesEditor: React.FC<GarmentAttributesEditorProps> = ({ attributes, onChange }) => {
+  const update = (changes: Partial<GarmentAttributes>) => onChange({ ...attributes, ...changes });
+
+  const toggleSeason = (season: Season) => {
+    const seasons = attributes.seasons.includes(season)
+      ? attributes.seasons.filter(s => s !== season)
+      : SEASONS.filter(s => s === season || attributes.seasons.includes(s));
+    update({ seasons });
+  };
+
+  const textFields: { key: 'pattern' | 'material' | 'sleeveLength' | 'length'; label: string; placeholder: string }[] = [
+    { key: 'pattern', label: 'Pattern', placeholder: 'solid, floral...' },
+    { key: 'material', label: 'Material', placeholder: 'denim, cotton...' },
+    { key: 'sleeveLength', label: 'Sleeves', placeholder: 'short, long...' },
+    { key: 'length', label: 'Length', placeholder: 'cropped, maxi...' },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <label className="col-span-2 text-xs text-gray-400">
+        Colors
+        <input
+          type="text"
+          placeholder="navy, white"
+          value={attributes.colors.join(', ')}
+          onChange={(e) => update({ colors: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })}
+          className={inputClassName}
+        />
+      </label>
+      {textFields.map(({ key, label, placeholder }) => (
+        <label key={key} className="text-xs text-gray-400">
+          {label}
+          <input
+            type="text"
+            placeholder={placeholder}
+            value={attributes[key] ?? ''}
+            onChange={(e) => update({ [key]: e.target.value || undefined })}
+            className={inputClassName}
+          />
+        </label>
+      ))}
+      <div className="col-span-2 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+        Seasons
+        {SEASONS.map((season) => (
+          <label key={season} className="flex items-center gap-1 text-gray-300">
+            <input
+              type="checkbox"
+              checked={attributes.seasons.includes(season)}
+              onChange={() => toggleSeason(season)}
+              className="accent-indigo-500"
+            />
+            {season}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
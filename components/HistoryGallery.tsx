@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { LookRecord } from '../types';
+import { ClothingItem } from '../data/clothingItems';
+import { getObjectUrl } from '../utils/imagePayload';
+import { downloadLookbookHtml, printLookbookPdf } from '../services/reportExporter';
+import { describeScene } from '../services/promptBuilder';
+import { HeartIcon } from './icons/HeartIcon';
+import { XIcon } from './icons/XIcon';
+
+interface HistoryGalleryProps {
+  looks: LookRecord[];
+  items: ClothingItem[];
+  activeLookId: string | null;
+  comparedIds: string[];
+  canCompareMore: boolean;
+  onOpen: (look: LookRecord) => void;
+  onDelete: (id: string) => void;
+  onToggleFavorite: (look: LookRecord) => void;
+  onToggleCompare: (id: string) => void;
+}
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ looks, items, activeLookId, comparedIds, canCompareMore, onOpen, onDelete, onToggleFavorite, onToggleCompare }) => {
+  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [exportIds, setExportIds] = useState<string[]>([]);
+
+  const visibleLooks = showFavoritesOnly ? looks.filter(look => look.favorite) : looks;
+  // Keep gallery order in the exported report, and ignore looks deleted since being selected
+  const looksToExport = looks.filter(look => exportIds.includes(look.id));
+
+  const toggleExport = (id: string) => {
+    setExportIds(prevIds => prevIds.includes(id) ? prevIds.filter(i => i !== id) : [...prevIds, id]);
+  };
+
+  return (
+    <section className="mt-8 bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-indigo-400">Look History</h2>
+        <div className="flex items-center gap-2">
+          {looksToExport.length > 0 && (
+            <>
+              <button
+                onClick={() => downloadLookbookHtml(looksToExport, items)}
+                className="px-3 py-1 text-sm font-medium rounded-full bg-green-600 hover:bg-green-500 text-white transition-colors"
+              >
+                Export HTML ({looksToExport.length})
+              </button>
+              <button
+                onClick={() => printLookbookPdf(looksToExport, items)}
+                className="px-3 py-1 text-sm font-medium rounded-full bg-green-600 hover:bg-green-500 text-white transition-colors"
+              >
+                Export PDF ({looksToExport.length})
+              </button>
+            </>
+          )}
+          {['All', 'Favourites'].map((filter) => {
+            const isActive = (filter === 'Favourites') === showFavoritesOnly;
+            return (
+              <button
+                key={filter}
+                onClick={() => setShowFavoritesOnly(filter === 'Favourites')}
+                className={`
+                  px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200
+                  ${isActive ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}
+                `}
+              >
+                {filter}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {visibleLooks.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+          {visibleLooks.map((look) => {
+            const src = getObjectUrl(look.generatedImage);
+            const isActive = look.id === activeLookId;
+            const isCompared = comparedIds.includes(look.id);
+            const isSelectedForExport = exportIds.includes(look.id);
+
+            return (
+              <div key={look.id} className="relative group">
+                <button
+                  onClick={() => onOpen(look)}
+                  className={`
+                    w-full rounded-lg p-1.5 transition-all duration-200 ease-in-out text-left
+                    focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500
+                    ${isActive ? 'bg-indigo-600 ring-2 ring-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}
+                  `}
+                  aria-label={`Open look with ${look.clothingItemName}`}
+                >
+                  <div className="h-36 flex items-center justify-center">
+                    <img src={src} alt={look.clothingItemName} className="max-w-full max-h-full object-contain rounded-md" />
+                  </div>
+                  <p className="mt-1 text-xs font-medium text-gray-200 truncate px-1">{look.clothingItemName}</p>
+                  {look.modelProfileName && (
+                    <p className="text-xs text-gray-400 truncate px-1">on {look.modelProfileName}</p>
+                  )}
+                  {look.scene && (
+                    <p className="text-[10px] text-gray-500 truncate px-1" title={describeScene(look.scene)}>{describeScene(look.scene)}</p>
+                  )}
+                  <div className="flex items-center justify-between px-1 text-xs text-gray-400">
+                    <span>{new Date(look.createdAt).toLocaleString()}</span>
+                    {look.trendResult && (
+                      <span className="font-bold text-indigo-300">{look.trendResult.score}</span>
+                    )}
+                  </div>
+                </button>
+                <button
+                  onClick={() => onToggleFavorite(look)}
+                  className={`
+                    absolute top-2 left-2 rounded-full p-1 bg-gray-900/60 transition-colors
+                    ${look.favorite ? 'text-pink-400' : 'text-gray-300 hover:text-pink-300'}
+                  `}
+                  aria-pressed={look.favorite}
+                  aria-label={look.favorite ? 'Remove from favourites' : 'Add to favourites'}
+                >
+                  <HeartIcon className="w-4 h-4" fill={look.favorite ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={() => onDelete(look.id)}
+                  className="absolute top-2 right-2 bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Delete look with ${look.clothingItemName}`}
+                >
+                  <XIcon className="w-4 h-4" />
+                </button>
+                <div className="mt-1 flex gap-1">
+                  <button
+                    onClick={() => onToggleCompare(look.id)}
+                    disabled={!isCompared && !canCompareMore}
+                    className={`
+                      flex-1 text-xs font-medium rounded-md py-0.5 transition-colors disabled:opacity-40 disabled:cursor-not-allowed
+                      ${isCompared ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}
+                    `}
+                    aria-pressed={isCompared}
+                  >
+                    {isCompared ? 'Comparing' : 'Compare'}
+                  </button>
+                  <button
+                    onClick={() => toggleExport(look.id)}
+                    className={`
+                      flex-1 text-xs font-medium rounded-md py-0.5 transition-colors
+                      ${isSelectedForExport ? 'bg-green-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}
+                    `}
+                    aria-pressed={isSelectedForExport}
+                  >
+                    {isSelectedForExport ? 'In report' : 'Report'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-center text-gray-500">
+          {showFavoritesOnly ? 'No favourite looks yet.' : 'Generated looks will appear here.'}
+        </p>
+      )}
+    </section>
+  );
+};
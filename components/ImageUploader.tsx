@@ -1,24 +1,33 @@
 import React, { useState, useCallback, useRef } from 'react';
-import { convertFileToBase64 } from '../utils/fileUtils';
+import { ACCEPT_ATTRIBUTE, preprocessImage } from '../utils/imagePreprocessing';
+import { ImageValidationError } from '../utils/errors';
+import { getObjectUrl, ImagePayload } from '../utils/imagePayload';
 import { UploadIcon } from './icons/UploadIcon';
 
 interface ImageUploaderProps {
   title: string;
-  onImageUpload: (base64: string) => void;
+  image: ImagePayload | null;
+  onImageUpload: (image: ImagePayload) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageUpload }) => {
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ title, image, onImageUpload }) => {
+  const imagePreview = image ? getObjectUrl(image) : null;
   const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = useCallback(async (file: File | null) => {
-    if (file && file.type.startsWith('image/')) {
-      const base64 = await convertFileToBase64(file);
-      const mimeType = base64.split(';')[0].split(':')[1];
-      const data = base64.split(',')[1];
-      onImageUpload(JSON.stringify({mimeType, data}));
-      setImagePreview(base64);
+    if (!file) return;
+    setValidationError(null);
+    setIsProcessing(true);
+    try {
+      onImageUpload(await preprocessImage(file));
+    } catch (err) {
+      console.error(err);
+      setValidationError(err instanceof ImageValidationError ? err.message : 'This image could not be processed. Please try a different image.');
+    } finally {
+      setIsProcessing(false);
     }
   }, [onImageUpload]);
 
@@ -69,7 +78,9 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageUplo
           ${isDragging ? 'border-indigo-400 bg-gray-700' : 'border-gray-600 bg-gray-800 hover:bg-gray-700/50'}
         `}
       >
-        {imagePreview ? (
+        {isProcessing ? (
+          <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-indigo-500"></div>
+        ) : imagePreview ? (
           <img src={imagePreview} alt="Preview" className="object-contain h-full w-full rounded-lg p-2" />
         ) : (
           <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center">
@@ -85,10 +96,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ title, onImageUplo
           ref={fileInputRef}
           type="file"
           className="hidden"
-          accept="image/png, image/jpeg, image/webp"
+          accept={ACCEPT_ATTRIBUTE}
           onChange={onFileSelected}
         />
       </label>
+      {validationError && (
+        <p className="mt-2 text-sm text-red-400" role="alert">{validationError}</p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { ClothingItem } from '../data/clothingItems';
+import { ACCEPT_ATTRIBUTE, preprocessImage } from '../utils/imagePreprocessing';
+import { ImageValidationError } from '../utils/errors';
+import { getObjectUrl } from '../utils/imagePayload';
+import { EMPTY_ATTRIBUTES, GarmentAttributesEditor } from './GarmentAttributesEditor';
+import { CategorySelect } from './CategorySelect';
+import { XIcon } from './icons/XIcon';
+
+interface ItemEditorProps {
+  item: ClothingItem;
+  categories: string[];
+  onSave: (item: ClothingItem) => void;
+  onRemove: (id: number) => void;
+  onCreateCategory: (name: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+export const ItemEditor: React.FC<ItemEditorProps> = ({ item, categories, onSave, onRemove, onCreateCategory, onClose }) => {
+  const [draft, setDraft] = useState<ClothingItem>(item);
+  const [tags, setTags] = useState((item.tags ?? []).join(', '));
+  const [imageError, setImageError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<ClothingItem>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImageError(null);
+    try {
+      update({ imageData: await preprocessImage(file) });
+    } catch (err) {
+      console.error(err);
+      setImageError(err instanceof ImageValidationError ? err.message : 'This image could not be processed. Please try a different image.');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      brand: draft.brand?.trim() || undefined,
+      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-gray-800 rounded-2xl p-5 shadow-2xl border border-gray-700"
+        aria-label={`Edit ${item.name}`}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-indigo-400">Edit Item</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-4">
+          <div className="flex flex-col items-center gap-2">
+            <img src={getObjectUrl(draft.imageData)} alt={draft.name} className="h-40 w-40 object-contain rounded-lg bg-gray-700" />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs font-semibold py-1.5 rounded-md transition-colors"
+            >
+              Replace image
+            </button>
+            <input ref={fileInputRef} type="file" className="hidden" accept={ACCEPT_ATTRIBUTE} onChange={handleFileChange} />
+          </div>
+          <div className="space-y-2">
+            <input
+              type="text"
+              placeholder="Item Name"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={inputClassName}
+              required
+            />
+            <CategorySelect
+              value={draft.category}
+              categories={categories}
+              onChange={(category) => update({ category })}
+              onCreateCategory={onCreateCategory}
+            />
+            <input
+              type="text"
+              placeholder="Brand (optional)"
+              value={draft.brand ?? ''}
+              onChange={(e) => update({ brand: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              placeholder="Tags, comma separated"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <div className="mt-4 p-2 bg-gray-900/50 rounded-md">
+          <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Attributes</h4>
+          <GarmentAttributesEditor
+            attributes={draft.attributes ?? EMPTY_ATTRIBUTES}
+            onChange={(attributes) => update({ attributes })}
+          />
+        </div>
+        {imageError && <p className="mt-2 text-xs text-red-400" role="alert">{imageError}</p>}
+        <div className="mt-4 flex gap-2">
+          <button type="submit" disabled={!draft.name.trim()} className="flex-1 bg-green-600 hover:bg-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-2 rounded-md transition-colors">
+            Save Changes
+          </button>
+          <button type="button" onClick={() => onRemove(item.id)} className="px-4 bg-red-600/80 hover:bg-red-500 text-white text-sm font-semibold py-2 rounded-md transition-colors">
+            Remove
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ModelProfile } from '../types';
+import { getObjectUrl, ImagePayload } from '../utils/imagePayload';
+import { ImageUploader } from './ImageUploader';
+import { XIcon } from './icons/XIcon';
+
+interface ModelProfileFormProps {
+  profile: ModelProfile | null; // null when creating a new profile
+  onSave: (profile: ModelProfile) => void;
+  onCancel?: () => void; // Omitted when there is nothing to go back to
+}
+
+const MAX_PHOTOS = 4;
+
+export const ModelProfileForm: React.FC<ModelProfileFormProps> = ({ profile, onSave, onCancel }) => {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [photos, setPhotos] = useState<ImagePayload[]>(profile?.photos ?? []);
+  const [notes, setNotes] = useState(profile?.notes ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || photos.length === 0) return;
+    onSave({
+      id: profile?.id ?? crypto.randomUUID(),
+      createdAt: profile?.createdAt ?? Date.now(),
+      name: name.trim(),
+      photos,
+      notes: notes.trim(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 border border-dashed border-gray-600 rounded-lg space-y-3">
+      <h4 className="text-md font-semibold text-gray-400">{profile ? `Edit ${profile.name}` : 'New Model Profile'}</h4>
+      <input
+        type="text"
+        placeholder="Profile name, e.g. Maya"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+        required
+      />
+      {photos.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {photos.map((photo, index) => (
+            <div key={index} className="relative flex-shrink-0">
+              <img src={getObjectUrl(photo)} alt={`Reference photo ${index + 1}`} className="h-24 w-20 object-cover rounded-md" />
+              {index === 0 && (
+                <span className="absolute bottom-1 left-1 bg-indigo-600 text-white text-[10px] font-semibold rounded px-1">Primary</span>
+              )}
+              <button
+                type="button"
+                onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                className="absolute top-1 right-1 bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5"
+                aria-label={`Remove reference photo ${index + 1}`}
+              >
+                <XIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {photos.length < MAX_PHOTOS && (
+        <ImageUploader
+          title={photos.length === 0 ? 'Reference photo' : 'Add another angle (optional)'}
+          image={null}
+          onImageUpload={(photo) => setPhotos(prev => [...prev, photo])}
+        />
+      )}
+      <textarea
+        placeholder="Body and fit notes (optional), e.g. 5'9&quot;, athletic build, prefers a relaxed fit"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={2}
+        className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!name.trim() || photos.length === 0}
+          className="flex-1 bg-green-600 hover:bg-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white text-sm font-semibold py-1.5 rounded-md transition-colors"
+        >
+          Save Profile
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-4 bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-semibold py-1.5 rounded-md transition-colors">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
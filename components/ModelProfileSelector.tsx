@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ModelProfile } from '../types';
+import { getObjectUrl } from '../utils/imagePayload';
+import { ModelProfileForm } from './ModelProfileForm';
+import { PencilIcon } from './icons/PencilIcon';
+import { XIcon } from './icons/XIcon';
+
+interface ModelProfileSelectorProps {
+  title: string;
+  profiles: ModelProfile[];
+  selectedId: string | null;
+  onSelect: (profile: ModelProfile) => void;
+  onSave: (profile: ModelProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ModelProfileSelector: React.FC<ModelProfileSelectorProps> = ({ title, profiles, selectedId, onSelect, onSave, onDelete }) => {
+  // 'new' while creating a profile, the profile being edited, or null when the form is closed
+  const [editing, setEditing] = useState<ModelProfile | 'new' | null>(null);
+  const selectedProfile = profiles.find(profile => profile.id === selectedId);
+  const isFormOpen = editing !== null || profiles.length === 0;
+
+  const handleSave = (profile: ModelProfile) => {
+    onSave(profile);
+    setEditing(null);
+  };
+
+  const handleDelete = (profile: ModelProfile) => {
+    if (window.confirm(`Delete the profile "${profile.name}"? Looks already made with it stay in your history.`)) {
+      onDelete(profile.id);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2 text-gray-300">{title}</h3>
+      <div className="bg-gray-800 rounded-lg p-3 border-2 border-dashed border-gray-600 space-y-3">
+        {profiles.length > 0 && (
+          <div className="flex items-stretch gap-3 overflow-x-auto pb-1">
+            {profiles.map((profile) => {
+              const isSelected = profile.id === selectedId;
+              return (
+                <div key={profile.id} className="relative flex-shrink-0 w-28 group">
+                  <button
+                    onClick={() => onSelect(profile)}
+                    className={`
+                      w-full rounded-lg p-1.5 transition-all duration-200 ease-in-out
+                      focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-indigo-500
+                      ${isSelected ? 'bg-indigo-600 ring-2 ring-indigo-400' : 'bg-gray-700 hover:bg-gray-600'}
+                    `}
+                    aria-pressed={isSelected}
+                    aria-label={`Use model profile ${profile.name}`}
+                  >
+                    <img src={getObjectUrl(profile.photos[0])} alt={profile.name} className="w-full h-28 object-cover rounded-md" />
+                    <p className="mt-1 text-xs font-medium text-center text-gray-200 truncate">{profile.name}</p>
+                    <p className="text-[10px] text-gray-400 text-center">
+                      {profile.photos.length} photo{profile.photos.length === 1 ? '' : 's'}
+                    </p>
+                  </button>
+                  <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setEditing(profile)}
+                      className="bg-gray-900/70 hover:bg-gray-600 text-white rounded-full p-1"
+                      aria-label={`Edit ${profile.name}`}
+                    >
+                      <PencilIcon className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(profile)}
+                      className="bg-red-600/70 hover:bg-red-500 text-white rounded-full p-0.5"
+                      aria-label={`Delete ${profile.name}`}
+                    >
+                      <XIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              onClick={() => setEditing('new')}
+              className="flex-shrink-0 w-28 rounded-lg border-2 border-dashed border-gray-600 hover:bg-gray-700/50 text-gray-400 text-sm font-medium"
+            >
+              + New profile
+            </button>
+          </div>
+        )}
+        {selectedProfile?.notes && !isFormOpen && (
+          <p className="text-xs text-gray-400 italic">Fit notes: {selectedProfile.notes}</p>
+        )}
+        {profiles.length > 0 && !selectedProfile && !isFormOpen && (
+          <p className="text-xs text-gray-500">Pick the model to style.</p>
+        )}
+        {isFormOpen && (
+          <ModelProfileForm
+            key={editing === null || editing === 'new' ? 'new' : editing.id}
+            profile={editing === 'new' ? null : editing}
+            onSave={handleSave}
+            onCancel={profiles.length > 0 ? () => setEditing(null) : undefined}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { PipelineStage, StageStatus, StageStatuses } from '../services/pipeline';
+import { getRetryPolicy } from '../services/retryPolicy';
+
+interface PipelineStepperProps {
+  stages: Pick<PipelineStage<unknown>, 'id' | 'label'>[];
+  statuses: StageStatuses;
+  onRetryStage: (stageId: string) => void;
+}
+
+const describeStatus = (status: StageStatus): string => {
+  switch (status.kind) {
+    case 'queued': return 'Queued';
+    case 'running': return 'In progress';
+    case 'retrying': return `Retrying (attempt ${status.attempt}/${getRetryPolicy().maxAttempts - 1})`;
+    case 'done': return 'Done';
+    case 'failed': return 'Failed';
+  }
+};
+
+const STATUS_STYLES: Record<StageStatus['kind'], string> = {
+  queued: 'bg-gray-700 text-gray-400',
+  running: 'bg-indigo-600 text-white animate-pulse',
+  retrying: 'bg-yellow-600 text-white animate-pulse',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white',
+};
+
+export const PipelineStepper: React.FC<PipelineStepperProps> = ({ stages, statuses, onRetryStage }) => {
+  return (
+    <ol className="flex items-start justify-center gap-2 w-full">
+      {stages.map((stage, index) => {
+        const status = statuses[stage.id];
+        return (
+          <li key={stage.id} className="flex items-start gap-2">
+            {index > 0 && <div className="mt-4 w-8 h-0.5 bg-gray-600" aria-hidden="true" />}
+            <div className="flex flex-col items-center text-center w-28">
+              <span className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${STATUS_STYLES[status.kind]}`}>
+                {status.kind === 'done' ? '✓' : status.kind === 'failed' ? '!' : index + 1}
+              </span>
+              <span className="mt-1 text-xs font-semibold text-gray-300">{stage.label}</span>
+              <span className="text-xs text-gray-500">{describeStatus(status)}</span>
+              {status.kind === 'failed' && (
+                <button
+                  onClick={() => onRetryStage(stage.id)}
+                  className="mt-1 px-2 py-0.5 text-xs font-semibold rounded-md bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+                >
+                  Retry step
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
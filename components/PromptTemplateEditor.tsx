@@ -0,0 +1,215 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  PROMPT_TEMPLATE_LABELS,
+  PROMPT_VARIABLES,
+  PromptTemplate,
+  PromptTemplateId,
+} from '../data/promptTemplates';
+import { findUnknownVariables } from '../services/promptTemplates';
+import { LookRecord } from '../types';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplate[]; // Every saved version
+  market: string;
+  looks: LookRecord[];
+  onSaveTemplate: (id: PromptTemplateId, text: string) => Promise<void>;
+  onMarketChange: (market: string) => void;
+}
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateId[];
+
+const getLookVersion = (look: LookRecord, id: PromptTemplateId): number | null =>
+  id === 'compose' ? look.composeTemplateVersion : look.analysisTemplateVersion;
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, market, looks, onSaveTemplate, onMarketChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('compose');
+  const [draft, setDraft] = useState<string | null>(null); // null until the user edits
+  const [isSaving, setIsSaving] = useState(false);
+  const [marketDraft, setMarketDraft] = useState(market);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const versions = templates
+    .filter(template => template.id === templateId)
+    .sort((a, b) => b.version - a.version);
+  const active = versions[0];
+  const text = draft ?? active?.text ?? '';
+  const unknownVariables = findUnknownVariables(templateId, text);
+
+  // Score distribution per version, so prompt changes can be compared
+  const versionStats = useMemo(() => {
+    const stats = new Map<number, { count: number; total: number }>();
+    looks.forEach(look => {
+      const version = getLookVersion(look, templateId);
+      if (version === null || !look.trendResult) return;
+      const entry = stats.get(version) ?? { count: 0, total: 0 };
+      stats.set(version, { count: entry.count + 1, total: entry.total + look.trendResult.score });
+    });
+    return stats;
+  }, [looks, templateId]);
+
+  const toggleOpen = () => {
+    // The saved market may have loaded after the editor mounted
+    if (!isOpen) setMarketDraft(market);
+    setIsOpen(!isOpen);
+  };
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setDraft(null);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${name}}}`;
+    const start = textarea?.selectionStart ?? text.length;
+    const end = textarea?.selectionEnd ?? text.length;
+    setDraft(text.slice(0, start) + placeholder + text.slice(end));
+    textarea?.focus();
+  };
+
+  const handleSave = async () => {
+    if (!draft?.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSaveTemplate(templateId, draft);
+      setDraft(null);
+    } catch {
+      // Already reported by the parent; the draft stays so the edit is not lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasChanges = draft !== null && draft.trim() !== '' && draft !== active?.text;
+
+  return (
+    <section className="mt-8 bg-gray-800/50 rounded-2xl p-6 shadow-2xl border border-gray-700">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold mb-1 text-indigo-400">Prompt Templates</h2>
+          <p className="text-sm text-gray-400">Tune the instructions sent to the AI. Every edit is saved as a new version and each look records the version that produced it.</p>
+        </div>
+        <button
+          onClick={toggleOpen}
+          className="px-3 py-1 text-sm font-medium rounded-full bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors flex-shrink-0"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Hide' : 'Edit prompts'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Target market
+            <input
+              type="text"
+              value={marketDraft}
+              onChange={(e) => setMarketDraft(e.target.value)}
+              onBlur={() => onMarketChange(marketDraft)}
+              placeholder="global"
+              className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </label>
+
+          <div className="flex gap-2">
+            {TEMPLATE_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => selectTemplate(id)}
+                className={`
+                  px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200
+                  ${templateId === id ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}
+                `}
+                aria-pressed={templateId === id}
+              >
+                {PROMPT_TEMPLATE_LABELS[id]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs text-gray-400">Insert:</span>
+            {PROMPT_VARIABLES[templateId].map(variable => (
+              <button
+                key={variable.name}
+                onClick={() => insertVariable(variable.name)}
+                title={variable.description}
+                className="px-2 py-0.5 text-xs font-mono rounded-md bg-gray-700 hover:bg-gray-600 text-indigo-200"
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            ref={textareaRef}
+            value={text}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono text-gray-200 focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label={`${PROMPT_TEMPLATE_LABELS[templateId]} template`}
+          />
+          {unknownVariables.length > 0 && (
+            <p className="text-xs text-amber-300">
+              Unknown variables will be sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || isSaving}
+              className="px-6 py-2 text-sm font-semibold rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-all disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : `Save as v${(active?.version ?? 0) + 1}`}
+            </button>
+            {draft !== null && (
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+              >
+                Discard changes
+              </button>
+            )}
+          </div>
+
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-2">Version</th>
+                <th className="py-2">Saved</th>
+                <th className="py-2">Analyzed looks</th>
+                <th className="py-2">Avg. score</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(template => {
+                const stats = versionStats.get(template.version);
+                return (
+                  <tr key={template.version} className="border-b border-gray-800">
+                    <td className="py-2 font-medium text-gray-200">
+                      v{template.version}{template === active && <span className="ml-2 text-xs text-indigo-300">active</span>}
+                    </td>
+                    <td className="py-2 text-gray-400">{template.createdAt ? new Date(template.createdAt).toLocaleString() : 'Built-in'}</td>
+                    <td className="py-2 text-gray-400">{stats?.count ?? 0}</td>
+                    <td className="py-2 font-bold text-indigo-300">{stats ? Math.round(stats.total / stats.count) : '—'}</td>
+                    <td className="py-2 text-right">
+                      {template !== active && (
+                        <button onClick={() => setDraft(template.text)} className="text-xs font-medium text-indigo-300 hover:text-indigo-200">
+                          Load into editor
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
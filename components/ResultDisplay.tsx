@@ -1,22 +1,23 @@
 import React from 'react';
 import { TrendScoreGauge } from './TrendScoreGauge';
+import { TrendBreakdown } from './TrendBreakdown';
+import { TrendAnalysisResult } from '../types';
+import { getFileExtension, getObjectUrl, ImagePayload } from '../utils/imagePayload';
 import { DownloadIcon } from './icons/DownloadIcon';
 
 interface ResultDisplayProps {
-  image: string;
-  score: number;
-  analysis: string;
+  image: ImagePayload;
+  result: TrendAnalysisResult;
 }
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ image, score, analysis }) => {
-  const parsedImage = JSON.parse(image);
-  const imageUrl = `data:${parsedImage.mimeType};base64,${parsedImage.data}`;
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ image, result }) => {
+  const { score, analysis, dimensions, trendTags, targetDemographics, suggestions } = result;
+  const imageUrl = getObjectUrl(image);
 
   const handleDownload = () => {
     const link = document.createElement('a');
     link.href = imageUrl;
-    const extension = parsedImage.mimeType.split('/')[1] || 'png';
-    link.download = `trendlens-ai-outfit.${extension}`;
+    link.download = `trendlens-ai-outfit.${getFileExtension(image)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -39,14 +40,39 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ image, score, anal
         </button>
       </div>
       <div className="flex-grow flex flex-col md:flex-row items-center gap-4">
-        <div className="flex-shrink-0">
+        <div className="flex-shrink-0 flex items-center gap-2">
           <TrendScoreGauge score={score} />
+          {dimensions && <TrendBreakdown dimensions={dimensions} />}
         </div>
         <div className="flex-grow text-center md:text-left">
           <h3 className="text-xl font-bold mb-2 text-indigo-400">AI Trend Analysis</h3>
           <p className="text-gray-300 text-sm leading-relaxed">{analysis}</p>
+          {trendTags.length > 0 && (
+            <div className="mt-2 flex flex-wrap justify-center md:justify-start gap-1.5">
+              {trendTags.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-900/60 text-indigo-200">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {targetDemographics.length > 0 && (
+            <p className="mt-2 text-xs text-gray-400">
+              <span className="font-semibold text-gray-300">Appeals to:</span> {targetDemographics.join(', ')}
+            </p>
+          )}
         </div>
       </div>
+      {suggestions.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-semibold mb-1 text-gray-300">Suggestions</h4>
+          <ul className="list-disc list-inside space-y-0.5 text-sm text-gray-400">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion}>{suggestion}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
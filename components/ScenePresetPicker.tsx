@@ -0,0 +1,74 @@
+import React from 'react';
+import {
+  BACKGROUND_PRESETS,
+  DEFAULT_SCENE,
+  FRAMING_PRESETS,
+  LIGHTING_PRESETS,
+  POSE_PRESETS,
+  ScenePreset,
+  SceneSettings,
+} from '../data/scenePresets';
+
+interface ScenePresetPickerProps {
+  title: string;
+  scene: SceneSettings;
+  onChange: (scene: SceneSettings) => void;
+}
+
+type PresetKey = 'background' | 'pose' | 'framing' | 'lighting';
+
+const GROUPS: { key: PresetKey; label: string; presets: ScenePreset<string>[] }[] = [
+  { key: 'background', label: 'Background', presets: BACKGROUND_PRESETS },
+  { key: 'pose', label: 'Pose', presets: POSE_PRESETS },
+  { key: 'framing', label: 'Framing', presets: FRAMING_PRESETS },
+  { key: 'lighting', label: 'Lighting', presets: LIGHTING_PRESETS },
+];
+
+export const ScenePresetPicker: React.FC<ScenePresetPickerProps> = ({ title, scene, onChange }) => {
+  const isDefault = GROUPS.every(({ key }) => scene[key] === DEFAULT_SCENE[key]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-300">{title}</h3>
+        {!isDefault && (
+          <button onClick={() => onChange(DEFAULT_SCENE)} className="text-xs font-medium text-indigo-300 hover:text-indigo-200">
+            Reset to studio
+          </button>
+        )}
+      </div>
+      <div className="bg-gray-800 rounded-lg p-3 border-2 border-dashed border-gray-600 space-y-2">
+        {GROUPS.map(({ key, label, presets }) => (
+          <div key={key} className="flex items-center gap-2 overflow-x-auto">
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wide w-20 flex-shrink-0">{label}</span>
+            {presets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => onChange({ ...scene, [key]: preset.id })}
+                className={`
+                  px-2.5 py-0.5 text-xs font-medium rounded-full transition-colors duration-200 flex-shrink-0
+                  ${scene[key] === preset.id
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  }
+                `}
+                aria-pressed={scene[key] === preset.id}
+              >
+                {preset.label}
+              </button>
+            ))}
+            {key === 'background' && scene.background === 'color' && (
+              <input
+                type="color"
+                value={scene.backgroundColor}
+                onChange={(e) => onChange({ ...scene, backgroundColor: e.target.value })}
+                className="h-6 w-8 flex-shrink-0 bg-transparent border-0 cursor-pointer"
+                aria-label="Background color"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
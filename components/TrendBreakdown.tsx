@@ -0,0 +1,35 @@
+import React from 'react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer } from 'recharts';
+import { TrendDimension, TrendDimensionScores } from '../types';
+
+const DIMENSION_LABELS: Record<TrendDimension, string> = {
+  colorPalette: 'Color',
+  silhouette: 'Silhouette',
+  fabricTexture: 'Fabric',
+  styling: 'Styling',
+  seasonality: 'Season',
+};
+
+interface TrendBreakdownProps {
+  dimensions: TrendDimensionScores;
+}
+
+export const TrendBreakdown: React.FC<TrendBreakdownProps> = ({ dimensions }) => {
+  const data = (Object.keys(DIMENSION_LABELS) as TrendDimension[]).map((dimension) => ({
+    dimension: DIMENSION_LABELS[dimension],
+    value: dimensions[dimension],
+  }));
+
+  return (
+    <div className="w-48 h-40">
+      <ResponsiveContainer width="100%" height="100%">
+        <RadarChart data={data} outerRadius="70%">
+          <PolarGrid stroke="#4b5563" />
+          <PolarAngleAxis dataKey="dimension" tick={{ fill: '#9ca3af', fontSize: 10 }} />
+          <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+          <Radar dataKey="value" stroke="#818cf8" fill="#6366f1" fillOpacity={0.4} />
+        </RadarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+  // Restart the countdown whenever a new message replaces the previous one
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-700 text-gray-100 text-sm rounded-lg shadow-2xl px-4 py-3" role="status">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-indigo-300 hover:text-indigo-200">
+        Undo
+      </button>
+    </div>
+  );
+};
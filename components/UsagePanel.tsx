@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { ModelLimits, QUOTA_WARNING_RATIO } from '../data/modelQuotas';
+import { EMPTY_USAGE, getUsage, subscribeToUsage, UsageSnapshot, UsageTotals } from '../services/usageLedger';
+
+interface UsagePanelProps {
+  limits: Record<string, ModelLimits>;
+  onLimitsChange: (limits: Record<string, ModelLimits>) => void;
+}
+
+const sumUsage = (usage: Record<string, UsageTotals>): UsageTotals =>
+  Object.values(usage).reduce((total, entry) => ({
+    calls: total.calls + entry.calls,
+    images: total.images + entry.images,
+    inputTokens: total.inputTokens + entry.inputTokens,
+    outputTokens: total.outputTokens + entry.outputTokens,
+    cost: total.cost + entry.cost,
+  }), EMPTY_USAGE);
+
+const formatCost = (cost: number): string => `$${cost.toFixed(cost > 0 && cost < 0.1 ? 3 : 2)}`;
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ limits, onLimitsChange }) => {
+  const [usage, setUsage] = useState<UsageSnapshot>(getUsage);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, ModelLimits>>(limits);
+
+  useEffect(() => subscribeToUsage(setUsage), []);
+
+  const models = Array.from(new Set([...Object.keys(limits), ...Object.keys(usage.today)]));
+  const today = sumUsage(usage.today);
+  const session = sumUsage(usage.session);
+
+  const warnings = models.flatMap(model => {
+    const limit = limits[model];
+    const calls = usage.today[model]?.calls ?? 0;
+    if (!limit || calls < limit.rpd * QUOTA_WARNING_RATIO) return [];
+    return [calls >= limit.rpd
+      ? `${model}: daily quota of ${limit.rpd} requests reached.`
+      : `${model}: ${calls} of ${limit.rpd} daily requests used.`];
+  });
+
+  const startEditing = () => {
+    setDraft(limits);
+    setIsEditing(true);
+  };
+
+  const updateDraft = (model: string, key: keyof ModelLimits, value: string) => {
+    const parsed = Math.max(1, Math.floor(Number(value)) || 1);
+    setDraft(prev => ({ ...prev, [model]: { ...prev[model], [key]: parsed } }));
+  };
+
+  const handleSave = () => {
+    onLimitsChange(draft);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="mt-6 bg-gray-800 rounded-lg p-3 border border-gray-700 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-300">API usage today</h3>
+        <button
+          onClick={isEditing ? () => setIsEditing(false) : startEditing}
+          className="text-xs font-medium text-indigo-300 hover:text-indigo-200"
+        >
+          {isEditing ? 'Close' : 'Limits'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-2">
+        {today.calls} request{today.calls === 1 ? '' : 's'} &middot; {today.images} image{today.images === 1 ? '' : 's'} &middot; ~{formatCost(today.cost)}
+        {' '}(this session: {session.calls} &middot; ~{formatCost(session.cost)})
+      </p>
+
+      {warnings.map(warning => (
+        <p key={warning} className="text-xs text-amber-300 mb-1">{warning}</p>
+      ))}
+
+      {!isEditing && (
+        <div className="space-y-1.5">
+          {models.map(model => {
+            const calls = usage.today[model]?.calls ?? 0;
+            const tokens = (usage.today[model]?.inputTokens ?? 0) + (usage.today[model]?.outputTokens ?? 0);
+            const rpd = limits[model]?.rpd;
+            const ratio = rpd ? Math.min(1, calls / rpd) : 0;
+            return (
+              <div key={model}>
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span className="truncate">{model}</span>
+                  <span>{calls}{rpd ? ` / ${rpd}` : ''} &middot; {tokens.toLocaleString()} tokens</span>
+                </div>
+                {rpd && (
+                  <div className="h-1 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${ratio >= QUOTA_WARNING_RATIO ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                      style={{ width: `${ratio * 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Requests are queued to stay under these limits. Match them to your API plan.</p>
+          {(Object.entries(draft) as [string, ModelLimits][]).map(([model, limit]) => (
+            <div key={model} className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="flex-1 truncate">{model}</span>
+              <label className="flex items-center gap-1">
+                RPM
+                <input
+                  type="number"
+                  min={1}
+                  value={limit.rpm}
+                  onChange={(e) => updateDraft(model, 'rpm', e.target.value)}
+                  className="w-16 bg-gray-700 border border-gray-600 rounded-md px-1.5 py-0.5 text-gray-200"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                RPD
+                <input
+                  type="number"
+                  min={1}
+                  value={limit.rpd}
+                  onChange={(e) => updateDraft(model, 'rpd', e.target.value)}
+                  className="w-20 bg-gray-700 border border-gray-600 rounded-md px-1.5 py-0.5 text-gray-200"
+                />
+              </label>
+            </div>
+          ))}
+          <button
+            onClick={handleSave}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold py-1.5 rounded-md transition-colors"
+          >
+            Save limits
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
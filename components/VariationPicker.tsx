@@ -0,0 +1,61 @@
+import React from 'react';
+import { MAX_VARIATIONS, VariationSettings } from '../services/variationRunner';
+
+interface VariationPickerProps {
+  settings: VariationSettings;
+  disabled: boolean;
+  onChange: (settings: VariationSettings) => void;
+}
+
+export const VariationPicker: React.FC<VariationPickerProps> = ({ settings, disabled, onChange }) => {
+  const counts = Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1);
+
+  return (
+    <div className="mt-6 bg-gray-800 rounded-lg p-3 border border-gray-700 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wide w-20 flex-shrink-0">Variations</span>
+        {counts.map((count) => (
+          <button
+            key={count}
+            onClick={() => onChange({ ...settings, count })}
+            disabled={disabled}
+            className={`
+              px-2.5 py-0.5 text-xs font-medium rounded-full transition-colors duration-200 disabled:opacity-50
+              ${settings.count === count
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }
+            `}
+            aria-pressed={settings.count === count}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+      {settings.count > 1 && (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-300">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.varyPose}
+              onChange={(e) => onChange({ ...settings, varyPose: e.target.checked })}
+              disabled={disabled}
+              className="accent-indigo-500"
+            />
+            Try a different pose for each
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.analyze}
+              onChange={(e) => onChange({ ...settings, analyze: e.target.checked })}
+              disabled={disabled}
+              className="accent-indigo-500"
+            />
+            Analyze all and highlight the best
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { getBestCandidate, VariationCandidate } from '../services/variationRunner';
+import { POSE_PRESETS } from '../data/scenePresets';
+import { getObjectUrl } from '../utils/imagePayload';
+
+interface VariationStripProps {
+  candidates: VariationCandidate[];
+  selectedIndex: number | null;
+  isRunning: boolean;
+  onSelect: (candidate: VariationCandidate) => void;
+  onCancel: () => void;
+}
+
+// Every candidate of the last variations run; picking one shows it in full below
+export const VariationStrip: React.FC<VariationStripProps> = ({ candidates, selectedIndex, isRunning, onSelect, onCancel }) => {
+  const best = getBestCandidate(candidates);
+  const finishedCount = candidates.filter(c => c.status !== 'generating' && c.status !== 'analyzing').length;
+
+  return (
+    <div className="w-full mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-300">
+          {isRunning ? `Variations (${finishedCount}/${candidates.length} ready)` : 'Variations: pick the one to keep working on'}
+        </h3>
+        {isRunning && (
+          <button onClick={onCancel} className="text-xs font-medium text-indigo-300 hover:text-indigo-200">
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {candidates.map((candidate) => {
+          const isSelected = candidate.index === selectedIndex;
+          const isBest = candidate.index === best?.index;
+          const pose = POSE_PRESETS.find(preset => preset.id === candidate.scene.pose)?.label;
+          // Failed candidates can be picked too, to see why they failed
+          const canPick = candidate.generatedImage !== undefined || candidate.status === 'failed';
+          return (
+            <button
+              key={candidate.index}
+              onClick={() => onSelect(candidate)}
+              disabled={!canPick}
+              title={candidate.error ?? `Seed ${candidate.seed}${pose ? `, ${pose} pose` : ''}`}
+              className={`
+                relative aspect-[3/4] rounded-lg overflow-hidden bg-gray-800 border-2 transition-colors flex items-center justify-center
+                ${isSelected ? 'border-indigo-500' : isBest ? 'border-amber-400' : 'border-gray-700 hover:border-gray-500'}
+              `}
+              aria-pressed={isSelected}
+            >
+              {candidate.generatedImage ? (
+                <img src={getObjectUrl(candidate.generatedImage)} alt={`Variation ${candidate.index + 1}`} className="w-full h-full object-cover" />
+              ) : candidate.status === 'failed' ? (
+                <span className="text-xs text-red-400 px-1">{candidate.block ? 'Blocked' : 'Failed'}</span>
+              ) : candidate.status === 'cancelled' ? (
+                <span className="text-xs text-gray-500 px-1">Cancelled</span>
+              ) : (
+                <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-indigo-500"></div>
+              )}
+              {candidate.trendResult && (
+                <span className={`absolute top-1 right-1 px-1.5 rounded text-xs font-bold ${isBest ? 'bg-amber-400 text-gray-900' : 'bg-gray-900/80 text-gray-200'}`}>
+                  {candidate.trendResult.score}
+                </span>
+              )}
+              {candidate.status === 'analyzing' && (
+                <span className="absolute bottom-1 inset-x-1 text-[10px] text-gray-200 bg-gray-900/80 rounded">Analyzing...</span>
+              )}
+              {isBest && !isRunning && (
+                <span className="absolute bottom-1 inset-x-1 text-[10px] font-semibold text-gray-900 bg-amber-400 rounded">Best score</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  height: number;
+  rowHeight: number;
+  minColumnWidth: number;
+  gap?: number;
+  overscanRows?: number;
+  getKey: (item: T) => React.Key;
+  renderItem: (item: T) => React.ReactNode;
+}
+
+// Scrollable grid that only mounts the rows in (or near) view, so large catalogs
+// don't decode every thumbnail up front
+export const VirtualGrid = <T,>({ items, height, rowHeight, minColumnWidth, gap = 12, overscanRows = 2, getKey, renderItem }: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setWidth(container.clientWidth);
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+  const columnWidth = Math.max(0, (width - gap * (columns - 1)) / columns);
+  const rowStride = rowHeight + gap;
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowStride) - overscanRows);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + height) / rowStride) + overscanRows);
+
+  const visible: React.ReactNode[] = [];
+  if (width > 0) {
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = 0; column < columns; column++) {
+        const item = items[row * columns + column];
+        if (item === undefined) break;
+        visible.push(
+          <div
+            key={getKey(item)}
+            className="absolute"
+            style={{ top: row * rowStride, left: column * (columnWidth + gap), width: columnWidth, height: rowHeight }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      }
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="overflow-y-auto overflow-x-hidden"
+      style={{ height }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: Math.max(0, rowCount * rowStride - gap) }}>
+        {visible}
+      </div>
+    </div>
+  );
+};
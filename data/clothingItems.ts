@@ -1,11 +1,36 @@
+import { ImagePayload } from '../utils/imagePayload';
+
 // In a real application, this data would come from an API.
 // For this example, images are pre-converted to base64 to avoid fetching issues.
+// These items seed the persistent catalog on first run (see services/storage/database.ts).
+
+// Categories every catalog starts with; users can add their own (see services/categoryRepository.ts)
+export const DEFAULT_CATEGORIES = ['Outerwear', 'Dresses', 'Tops', 'Bottoms', 'Shoes', 'Accessories', 'Bags'];
+export type ClothingCategory = string;
+
+export const SEASONS = ['Spring', 'Summer', 'Autumn', 'Winter'] as const;
+export type Season = typeof SEASONS[number];
+
+// Descriptive metadata, suggested by the AI when an item is added and editable by the user
+export interface GarmentAttributes {
+  colors: string[]; // Dominant colours, most prominent first, e.g. "navy"
+  pattern: string; // e.g. "solid", "floral", "striped"
+  material: string; // e.g. "denim", "cotton jersey"
+  sleeveLength?: string; // e.g. "short", "long", "sleeveless"; omitted for bottoms
+  length?: string; // e.g. "cropped", "hip", "maxi"
+  seasons: Season[];
+}
 
 export interface ClothingItem {
   id: number;
   name: string;
-  imageData: string; // JSON string: { mimeType: string, data: string }
-  category: 'Outerwear' | 'Dresses' | 'Tops' | 'Bottoms';
+  imageData: ImagePayload;
+  category: ClothingCategory;
+  addedAt?: number; // Epoch ms when added to the catalog; bundled items use 0
+  attributes?: GarmentAttributes;
+  brand?: string;
+  tags?: string[]; // Free-form labels used by catalog search
+  sortOrder?: number; // Position in the user's own ordering; see utils/catalogFilters.ts
 }
 
 export const clothingItems: ClothingItem[] = [
@@ -13,54 +38,63 @@ export const clothingItems: ClothingItem[] = [
     id: 1,
     name: 'Denim Jacket',
     category: 'Outerwear',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAzEAABBAEDAgQDBwUBAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlL/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z"}',
+    attributes: { colors: ['blue'], pattern: 'solid', material: 'denim', sleeveLength: 'long', length: 'hip', seasons: ['Spring', 'Autumn'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAzEAABBAEDAgQDBwUBAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlL/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z' },
   },
   {
     id: 2,
     name: 'Floral Maxi Dress',
     category: 'Dresses',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwABAQACAwEAAAAAAAAAAAAAAAEGBwIDBAX/xAA4EAABAwIFAgMGBgEEAwAAAAABAAIDBBEFEiEGMUETIlFhcYEHMpGhsRVSYoLwIzNCcsLR4fEk/8QAGAEBAQEBAQAAAAAAAAAAAAAAAQIDBQT/xAAfEQEBAAEEAwEBAQAAAAAAAAAAAQIREgMhMVEEQRJRcf/aAAwDAQACEQMRAD8A9xREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQf/9k="}'
+    attributes: { colors: ['white', 'pink', 'green'], pattern: 'floral', material: 'chiffon', sleeveLength: 'short', length: 'maxi', seasons: ['Spring', 'Summer'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwABAQACAwEAAAAAAAAAAAAAAAEGBwIDBAX/xAA4EAABAwIFAgMGBgEEAwAAAAABAAIDBBEFEiEGMUETIlFhcYEHMpGhsRVSYoLwIzNCcsLR4fEk/8QAGAEBAQEBAQAAAAAAAAAAAAAAAQIDBQT/xAAfEQEBAAEEAwEBAQAAAAAAAAAAAQIREgMhMVEEQRJRcf/aAAwDAQACEQMRAD8A9xREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQEREBERAREQf/9k=' }
   },
   {
     id: 3,
     name: 'Classic White Tee',
     category: 'Tops',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAwEAABBAEDAgQGAgMAAAAAAAABAgMEESEFEjFBBhNRYXGBIjKhscEU0eHwQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAQACAgMBAQAAAAAAAAAAAQIRAxIhMVEEIkFh/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-"}',
+    attributes: { colors: ['white'], pattern: 'solid', material: 'cotton jersey', sleeveLength: 'short', length: 'hip', seasons: ['Spring', 'Summer', 'Autumn'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAwEAABBAEDAgQGAgMAAAAAAAABAgMEESEFEjFBBhNRYXGBIjKhscEU0eHwQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAQACAgMBAQAAAAAAAAAAAQIRAxIhMVEEIkFh/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-' },
   },
 {
     id: 4,
     name: 'Leather Biker Jacket',
     category: 'Outerwear',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAACAgEDAwMCBQMEAwAAAAABAgADEQQSIQUxQRNRYQZxgRQiI5GhscFCUtHh8PH/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z"}',
+    attributes: { colors: ['black'], pattern: 'solid', material: 'leather', sleeveLength: 'long', length: 'cropped', seasons: ['Spring', 'Autumn'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAACAgEDAwMCBQMEAwAAAAABAgADEQQSIQUxQRNRYQZxgRQiI5GhscFCUtHh8PH/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z' },
   },
   {
     id: 5,
     name: 'Gray Hoodie',
     category: 'Outerwear',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAzEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-"}',
+    attributes: { colors: ['gray'], pattern: 'solid', material: 'cotton fleece', sleeveLength: 'long', length: 'hip', seasons: ['Autumn', 'Winter'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAzEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-' },
   },
   {
     id: 6,
     name: 'Graphic Print T-Shirt',
     category: 'Tops',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAwEAABBAEDAgQDBwUBAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlL/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z"}',
+    attributes: { colors: ['black', 'white'], pattern: 'graphic', material: 'cotton jersey', sleeveLength: 'short', length: 'hip', seasons: ['Spring', 'Summer'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAwEAABBAEDAgQDBwUBAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlL/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHREBAQEBAQADAAAAAAAAAAAAAAERAiESMUEDEv/aAAwDAQACEQMRAD8A+YREUiIREQIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgf/Z' },
   },
   {
     id: 7,
     name: 'Blue Formal Shirt',
     category: 'Tops',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAA0EAABBAEDAwIFAwUBAQEAAAABAgMEESEFEjFBBhNRYXGBIjKRobHwFEJSctEUweHxI2L/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHBEBAQEAAwEAAwAAAAAAAAAAAAERAgMhMRJB/9oADAMBAAIRAxEAPwDyCiKVQRFSLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiAiiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAi-"}',
+    attributes: { colors: ['light blue'], pattern: 'solid', material: 'cotton poplin', sleeveLength: 'long', length: 'hip', seasons: ['Spring', 'Summer', 'Autumn', 'Winter'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAA0EAABBAEDAwIFAwUBAQEAAAABAgMEESEFEjFBBhNRYXGBIjKRobHwFEJSctEUweHxI2L/xAAXAQEBAQEAAAAAAAAAAAAAAAAAAQID/8QAHBEBAQEAAwEAAwAAAAAAAAAAAAERAgMhMRJB/9oADAMBAAIRAxEAPwDyCiKVQRFSLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiLSKItIoi0iiAiiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAiIgIiICIiAi-' },
   },
   {
     id: 8,
     name: 'Ripped Denim Jeans',
     category: 'Bottoms',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-"}',
+    attributes: { colors: ['blue'], pattern: 'distressed', material: 'denim', length: 'full', seasons: ['Spring', 'Autumn', 'Winter'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIp-' },
   },
 {
     id: 9,
     name: 'Knit Sweater',
     category: 'Tops',
-    imageData: '{"mimeType":"image/jpeg","data":"/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpER-"}',
+    attributes: { colors: ['cream'], pattern: 'cable knit', material: 'wool knit', sleeveLength: 'long', length: 'hip', seasons: ['Autumn', 'Winter'] },
+    imageData: { mimeType: 'image/jpeg', data: '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9Pjv/2wBDAQoLCw4NDhwQEBw7KCIoOzs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozv/wAARCAEAAQADASIAAhEBAxEB/8QAGwAAAgMBAQEAAAAAAAAAAAAAAwQCBQYBAAf/xAAxEAABBAEDAgQDBwQDAAAAAAECAAMEESEFEjFBBhNRYXGBIqEUkbHB8ELR4SMyQlLxcv/EABcBAQEBAQAAAAAAAAAAAAAAAAECAwT/xAAgEQEBAAICAgIDAAAAAAAAAAAAAQIRAxIhMRMEQVEE/9oADAMBAAIRAxEAPwD59RRUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpERUiIpER-' },
   }
 ];
\ No newline at end of file
@@ -0,0 +1,28 @@
+// Request limits and prices per model, used by the client-side rate limiter and the usage
+// panel. The defaults follow the Gemini API free tier; adjust the limits in the app to
+// match your plan. Prices are estimates in USD and only feed the cost shown to the user.
+
+export interface ModelLimits {
+  rpm: number; // Requests per minute
+  rpd: number; // Requests per day
+}
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD per million prompt tokens
+  outputPerMillion: number; // USD per million output tokens, including generated images and thinking
+}
+
+export const DEFAULT_MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gemini-2.5-flash-image': { rpm: 10, rpd: 100 },
+  'gemini-2.5-pro': { rpm: 5, rpd: 100 },
+  'gemini-2.5-flash': { rpm: 10, rpd: 250 },
+};
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+};
+
+// Share of the daily quota after which the usage panel starts warning
+export const QUOTA_WARNING_RATIO = 0.8;
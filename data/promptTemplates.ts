@@ -0,0 +1,61 @@
+// Instructions sent to the AI, kept as data so they can be tuned in the app without a
+// redeploy. Templates are versioned: editing one saves a new version and every look
+// records the versions that produced it (see services/promptTemplates.ts).
+
+export type PromptTemplateId = 'compose' | 'analysis';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: number; // Starts at 1 and increases with every saved edit
+  text: string; // May reference variables as {{name}}
+  createdAt: number; // Epoch ms; 0 for the bundled defaults
+}
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateId, string> = {
+  compose: 'Image generation',
+  analysis: 'Trend analysis',
+};
+
+// Available to every template
+const GARMENT_VARIABLES: PromptVariable[] = [
+  { name: 'garmentName', description: 'Name of the garment, or all garment names for an outfit' },
+  { name: 'category', description: 'Category of the garment(s)' },
+  { name: 'season', description: 'Seasons the garments suit, or the current season when unknown' },
+  { name: 'market', description: 'Target market set in the template editor' },
+];
+
+export const PROMPT_VARIABLES: Record<PromptTemplateId, PromptVariable[]> = {
+  compose: [
+    ...GARMENT_VARIABLES,
+    { name: 'modelSource', description: 'Which of the attached images show the model' },
+    { name: 'garmentSource', description: 'Which images show the garment(s) and, for outfits, how to layer them' },
+    { name: 'sceneDirections', description: 'Background, pose, framing and lighting from the scene presets' },
+    { name: 'modelNotes', description: 'The model profile\'s fit notes, if any' },
+  ],
+  analysis: [
+    ...GARMENT_VARIABLES,
+    { name: 'outfitDescription', description: 'What the outfit is made of; empty for a single garment' },
+  ],
+};
+
+export const DEFAULT_MARKET = 'global';
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'compose',
+    version: 1,
+    createdAt: 0,
+    text: 'As an expert fashion photoshoot art director, generate a new, photorealistic image of {{modelSource}} wearing {{garmentSource}} {{sceneDirections}}{{modelNotes}}',
+  },
+  {
+    id: 'analysis',
+    version: 1,
+    createdAt: 0,
+    text: 'You are a professional fashion trend forecaster. Analyze this image. {{outfitDescription}}Based on current {{market}} fashion trends (e.g., color palettes, silhouettes, fabrics, Y2K revival, minimalist aesthetics, streetwear influences), provide an overall trend score from 0 to 100. Also, provide a brief, insightful analysis (2-3 sentences) explaining the score. Break the score down into sub-scores from 0 to 100 for the color palette, silhouette, fabric and texture, styling, and seasonality. List the named trends the look taps into (e.g., "Y2K revival", "quiet luxury"), the target demographics it would appeal to most, and 2-4 concrete, actionable suggestions that would improve its marketability.',
+  },
+];
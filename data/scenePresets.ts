@@ -0,0 +1,59 @@
+// Presets for how a look is staged. Each option carries the prompt fragment that
+// services/promptBuilder.ts composes into the generation request.
+
+export interface ScenePreset<Id extends string> {
+  id: Id;
+  label: string;
+  prompt: string;
+}
+
+export type BackgroundPresetId = 'studio' | 'street' | 'runway' | 'beach' | 'color';
+export type PosePresetId = 'natural' | 'front' | 'three-quarter' | 'walking';
+export type FramingPresetId = 'full-body' | 'waist-up';
+export type LightingPresetId = 'softbox' | 'daylight' | 'golden-hour' | 'dramatic';
+
+export const BACKGROUND_PRESETS: ScenePreset<BackgroundPresetId>[] = [
+  { id: 'studio', label: 'Studio', prompt: 'The background should be a clean, minimalist studio setting (e.g., light gray, off-white) to emphasize the outfit.' },
+  { id: 'street', label: 'Street', prompt: 'The background should be a city street with softly blurred storefronts, keeping the focus on the outfit.' },
+  { id: 'runway', label: 'Runway', prompt: 'The setting should be a fashion show runway, with an out-of-focus audience on either side.' },
+  { id: 'beach', label: 'Beach', prompt: 'The background should be a sunny beach with sand and sea, softly blurred.' },
+  // The colour itself is filled in from SceneSettings.backgroundColor
+  { id: 'color', label: 'Custom color', prompt: 'The background should be a seamless, solid {color} backdrop.' },
+];
+
+export const POSE_PRESETS: ScenePreset<PosePresetId>[] = [
+  { id: 'natural', label: 'Natural', prompt: 'Position the model in a natural pose.' },
+  { id: 'front', label: 'Front', prompt: 'Pose the model facing the camera straight on, standing upright with arms relaxed.' },
+  { id: 'three-quarter', label: 'Three-quarter', prompt: 'Pose the model in a three-quarter view, with the body turned about 45 degrees from the camera.' },
+  { id: 'walking', label: 'Walking', prompt: 'Capture the model mid-stride, walking towards the camera.' },
+];
+
+export const FRAMING_PRESETS: ScenePreset<FramingPresetId>[] = [
+  { id: 'full-body', label: 'Full body', prompt: 'Frame the shot full length, from head to toe.' },
+  { id: 'waist-up', label: 'Waist up', prompt: 'Frame the shot from the waist up.' },
+];
+
+export const LIGHTING_PRESETS: ScenePreset<LightingPresetId>[] = [
+  { id: 'softbox', label: 'Softbox', prompt: 'the lighting is soft and flattering (like from a large softbox)' },
+  { id: 'daylight', label: 'Daylight', prompt: 'the lighting is bright, natural daylight' },
+  { id: 'golden-hour', label: 'Golden hour', prompt: 'the lighting is the warm, low sunlight of golden hour' },
+  { id: 'dramatic', label: 'Dramatic', prompt: 'the lighting is dramatic and high-contrast, with defined shadows' },
+];
+
+// The staging of a look; saved with every result so it can be reproduced
+export interface SceneSettings {
+  background: BackgroundPresetId;
+  backgroundColor: string; // CSS hex colour, used when `background` is 'color'
+  pose: PosePresetId;
+  framing: FramingPresetId;
+  lighting: LightingPresetId;
+}
+
+// Matches the studio look the app has always generated
+export const DEFAULT_SCENE: SceneSettings = {
+  background: 'studio',
+  backgroundColor: '#e5e7eb',
+  pose: 'natural',
+  framing: 'full-body',
+  lighting: 'softbox',
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ClothingItem } from "../data/clothingItems";
+import { DEFAULT_SCENE } from "../data/scenePresets";
+import { ModelSubject, TrendAnalysisResult } from "../types";
+import { sleep } from "../utils/abort";
+import { CancelledError, RateLimitError } from "../utils/errors";
+import { ImagePayload } from "../utils/imagePayload";
+import { BatchItemProgress, runBatch } from "./batchRunner";
+import { analyzeTrend, generateStyledImage } from "./geminiService";
+
+vi.mock("./geminiService", () => ({
+    generateStyledImage: vi.fn(),
+    analyzeTrend: vi.fn(),
+}));
+
+const IMAGE: ImagePayload = { mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+const MODEL: ModelSubject = { photos: [IMAGE], notes: '' };
+const RESULT = { score: 70 } as TrendAnalysisResult;
+
+const item = (id: number): ClothingItem => ({ id, name: `Item ${id}`, category: 'Tops', imageData: IMAGE });
+
+const finalStatuses = (progress: BatchItemProgress[]) =>
+    Object.fromEntries(progress.map(entry => [entry.item.id, entry.status]));
+
+describe('runBatch', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.mocked(analyzeTrend).mockResolvedValue(RESULT);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.resetAllMocks();
+    });
+
+    it('retries items re-queued after a rate limit once the rest of the queue has drained', async () => {
+        const attempts = new Map<string, number>();
+        vi.mocked(generateStyledImage).mockImplementation(async (_model, [garment], _scene, options) => {
+            const attempt = (attempts.get(garment.name) ?? 0) + 1;
+            attempts.set(garment.name, attempt);
+            // Item 3 finishes at once, leaving the queue empty while 1 and 2 are still running
+            const isQuick = garment.name === 'Item 3';
+            await sleep(isQuick ? 0 : 1000, options?.signal);
+            if (!isQuick && attempt === 1) throw new RateLimitError();
+            return IMAGE;
+        });
+
+        const run = runBatch(MODEL, DEFAULT_SCENE, [item(1), item(2), item(3)], { concurrency: 3, onProgress: () => undefined });
+        await vi.runAllTimersAsync();
+
+        expect(finalStatuses(await run)).toEqual({ 1: 'done', 2: 'done', 3: 'done' });
+        expect(Object.fromEntries(attempts)).toEqual({ 'Item 1': 2, 'Item 2': 2, 'Item 3': 1 });
+    });
+
+    it('stops when cancelled and reports unfinished items as cancelled', async () => {
+        vi.mocked(generateStyledImage).mockImplementation(async (_model, _garments, _scene, options) => {
+            await sleep(1000, options?.signal);
+            return IMAGE;
+        });
+        const controller = new AbortController();
+        const progress = new Map<number, BatchItemProgress>();
+
+        const run = runBatch(MODEL, DEFAULT_SCENE, [item(1), item(2), item(3)], {
+            concurrency: 1,
+            signal: controller.signal,
+            onProgress: entry => progress.set(entry.item.id, entry),
+        });
+        const assertion = expect(run).rejects.toBeInstanceOf(CancelledError);
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+        await assertion;
+
+        expect(finalStatuses([...progress.values()])).toEqual({ 1: 'done', 2: 'cancelled', 3: 'cancelled' });
+        expect(generateStyledImage).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,136 @@
+import { ClothingItem } from "../data/clothingItems";
+import { SceneSettings } from "../data/scenePresets";
+import { ModelSubject, TrendAnalysisResult } from "../types";
+import { ApiError, CancelledError, QuotaExceededError, RateLimitError } from "../utils/errors";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { ImagePayload } from "../utils/imagePayload";
+import { analyzeTrend, generateStyledImage } from "./geminiService";
+
+export type BatchItemStatus = 'queued' | 'generating' | 'analyzing' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItemProgress {
+    item: ClothingItem;
+    status: BatchItemStatus;
+    generatedImage?: ImagePayload;
+    trendResult?: TrendAnalysisResult;
+    composeTemplateVersion?: number;
+    analysisTemplateVersion?: number;
+    error?: string;
+}
+
+export interface BatchOptions {
+    concurrency?: number;
+    // Times an item is re-queued after the provider gave up on a rate limit
+    maxRateLimitRetries?: number;
+    // Aborting stops the batch: unfinished items are reported as cancelled and runBatch rejects with CancelledError
+    signal?: AbortSignal;
+    onProgress: (progress: BatchItemProgress) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_RATE_LIMIT_RETRIES = 3;
+const RATE_LIMIT_BASE_DELAY_MS = 5000;
+
+// Styles the model in each item and scores the result, running at most `concurrency` items at once.
+// A rate limit pauses every worker, so the whole queue backs off together instead of hammering the API.
+export const runBatch = async (
+    model: ModelSubject,
+    scene: SceneSettings,
+    items: ClothingItem[],
+    { concurrency = DEFAULT_CONCURRENCY, maxRateLimitRetries = DEFAULT_MAX_RATE_LIMIT_RETRIES, signal, onProgress }: BatchOptions
+): Promise<BatchItemProgress[]> => {
+    const queue = items.map(item => ({ item, rateLimitRetries: 0 }));
+    const results = new Map<number, BatchItemProgress>();
+    let pausedUntil = 0;
+    let consecutiveRateLimits = 0;
+    // Items not yet done or failed. Workers stay alive until this reaches 0, because an item
+    // re-queued after a rate limit must not find every worker gone.
+    let pending = items.length;
+
+    // Idle workers wait here until an item is re-queued, the batch finishes or it is cancelled
+    let idleWorkers: (() => void)[] = [];
+    const wakeWorkers = () => {
+        idleWorkers.forEach(wake => wake());
+        idleWorkers = [];
+    };
+    const waitForWork = () => new Promise<void>(resolve => idleWorkers.push(resolve));
+    signal?.addEventListener('abort', wakeWorkers, { once: true });
+
+    const finish = (progress: BatchItemProgress) => {
+        report(progress);
+        pending--;
+        if (pending === 0) wakeWorkers();
+    };
+
+    const report = (progress: BatchItemProgress) => {
+        results.set(progress.item.id, progress);
+        onProgress(progress);
+    };
+
+    items.forEach(item => report({ item, status: 'queued' }));
+
+    const worker = async () => {
+        while (pending > 0) {
+            throwIfAborted(signal);
+            const entry = queue.shift();
+            if (!entry) {
+                await waitForWork();
+                continue;
+            }
+            const { item } = entry;
+
+            if (Date.now() < pausedUntil) {
+                report({ item, status: 'waiting' });
+                await sleep(pausedUntil - Date.now(), signal);
+            }
+
+            try {
+                report({ item, status: 'generating' });
+                let composeTemplateVersion: number | undefined;
+                let analysisTemplateVersion: number | undefined;
+                const generatedImage = await generateStyledImage(model, [item], scene, {
+                    signal,
+                    onPromptRendered: template => { composeTemplateVersion = template.version; },
+                });
+                report({ item, status: 'analyzing', generatedImage, composeTemplateVersion });
+                const trendResult = await analyzeTrend(generatedImage, [item], {
+                    signal,
+                    onPromptRendered: template => { analysisTemplateVersion = template.version; },
+                });
+                consecutiveRateLimits = 0;
+                finish({ item, status: 'done', generatedImage, trendResult, composeTemplateVersion, analysisTemplateVersion });
+            } catch (err) {
+                if (err instanceof CancelledError || signal?.aborted) {
+                    throw new CancelledError();
+                }
+                const isTransient = err instanceof RateLimitError && !(err instanceof QuotaExceededError);
+                if (isTransient && entry.rateLimitRetries < maxRateLimitRetries) {
+                    consecutiveRateLimits++;
+                    const delay = RATE_LIMIT_BASE_DELAY_MS * Math.pow(2, consecutiveRateLimits - 1);
+                    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+                    console.warn(`Rate limited during batch. Pausing the queue for ${delay / 1000}s...`);
+                    queue.push({ item, rateLimitRetries: entry.rateLimitRetries + 1 });
+                    report({ item, status: 'waiting' });
+                    wakeWorkers();
+                    continue;
+                }
+                console.error(err);
+                const message = err instanceof ApiError ? err.message : 'An unexpected error occurred.';
+                finish({ item, status: 'failed', error: message });
+            }
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    } catch (err) {
+        if (!signal?.aborted) throw err;
+        items
+            .filter(item => !['done', 'failed'].includes(results.get(item.id)!.status))
+            .forEach(item => report({ ...results.get(item.id)!, status: 'cancelled' }));
+        throw new CancelledError();
+    } finally {
+        signal?.removeEventListener('abort', wakeWorkers);
+    }
+    return items.map(item => results.get(item.id)!);
+};
@@ -0,0 +1,338 @@
+import { ClothingCategory, ClothingItem, GarmentAttributes, SEASONS, Season } from '../data/clothingItems';
+import { parseCsv } from '../utils/csv';
+import { CatalogImportError } from '../utils/errors';
+import { getFileExtension, ImagePayload, imagePayloadFromBlob, toBlob } from '../utils/imagePayload';
+import { preprocessImage } from '../utils/imagePreprocessing';
+import { createZip, readZip } from '../utils/zip';
+
+// A portable catalog is a zip with `manifest.json` plus one file per image under `images/`.
+// Imports also accept a CSV (name, category, image URL or file name), either on its own
+// with image URLs or inside a zip next to the image files it names.
+
+const BUNDLE_FORMAT = 'trendlens-catalog';
+const BUNDLE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+interface ManifestItem {
+  name: string;
+  category: ClothingCategory;
+  image: string; // Path of the image file inside the bundle
+  brand?: string;
+  tags?: string[];
+  attributes?: GarmentAttributes;
+}
+
+interface Manifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: ManifestItem[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+export type ImportedItem = Omit<ClothingItem, 'id' | 'addedAt'>;
+
+export interface ImportCandidate {
+  item: ImportedItem;
+  source: string; // Where the item came from, for messages, e.g. "row 4"
+  duplicateOf?: string; // Name of the catalog item with the same image, if any
+}
+
+interface ParsedImport {
+  candidates: Omit<ImportCandidate, 'duplicateOf'>[];
+  errors: string[];
+}
+
+export interface ImportPreview {
+  candidates: ImportCandidate[];
+  errors: string[]; // Rows or entries that were skipped, with the reason
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+const mimeTypeFor = (path: string): string | undefined =>
+  MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''];
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'item';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Identical images hash identically however they were named or where they came from
+export const hashImage = async (payload: ImagePayload): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', await toBlob(payload).arrayBuffer()));
+
+export const exportCatalog = async (items: ClothingItem[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const images = await Promise.all(items.map(async (item, index) => ({
+    name: `images/${String(index + 1).padStart(4, '0')}-${slugify(item.name)}.${getFileExtension(item.imageData)}`,
+    data: new Uint8Array(await toBlob(item.imageData).arrayBuffer()),
+  })));
+  const manifest: Manifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    items: items.map((item, index) => ({
+      name: item.name,
+      category: item.category,
+      image: images[index].name,
+      brand: item.brand,
+      tags: item.tags,
+      attributes: item.attributes,
+    })),
+  };
+  return createZip([{ name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) }, ...images]);
+};
+
+export const downloadCatalogBundle = async (items: ClothingItem[]) => {
+  const url = URL.createObjectURL(await exportCatalog(items));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `trendlens-catalog-${new Date().toISOString().slice(0, 10)}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// Known categories are matched case-insensitively; any other name becomes a new category
+const parseCategory = (value: unknown, categories: string[]): ClothingCategory | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const name = value.trim();
+  return categories.find(category => category.toLowerCase() === name.toLowerCase()) ?? name;
+};
+
+// Attributes are optional metadata, so a malformed set is dropped rather than failing the item
+const parseAttributes = (value: unknown): GarmentAttributes | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { colors, pattern, material, sleeveLength, length, seasons } = value as Record<string, unknown>;
+  if (!isStringArray(colors) || typeof pattern !== 'string' || typeof material !== 'string' || !isStringArray(seasons)) {
+    return undefined;
+  }
+  return {
+    colors,
+    pattern,
+    material,
+    sleeveLength: typeof sleeveLength === 'string' ? sleeveLength : undefined,
+    length: typeof length === 'string' ? length : undefined,
+    seasons: SEASONS.filter((season: Season) => seasons.includes(season)),
+  };
+};
+
+// Bundle images were produced by an export, so they are kept byte for byte and only checked to decode
+const readBundleImage = async (bytes: Uint8Array, path: string): Promise<ImagePayload> => {
+  const mimeType = mimeTypeFor(path);
+  if (!mimeType) throw new Error(`"${path}" is not a supported image type`);
+  const blob = new Blob([bytes as BlobPart], { type: mimeType });
+  if (mimeType !== 'image/svg+xml') {
+    try {
+      (await createImageBitmap(blob)).close();
+    } catch {
+      throw new Error(`"${path}" could not be read as an image`);
+    }
+  }
+  return imagePayloadFromBlob(blob);
+};
+
+// CSV images are arbitrary source photos and go through the same preprocessing as uploads
+const readSourceImage = async (reference: string, files: Map<string, Uint8Array> | null): Promise<ImagePayload> => {
+  let blob: Blob;
+  if (/^https?:\/\//i.test(reference)) {
+    let response: Response;
+    try {
+      response = await fetch(reference);
+    } catch {
+      throw new Error(`the image at ${reference} could not be downloaded (the server may not allow it)`);
+    }
+    if (!response.ok) throw new Error(`the image at ${reference} returned HTTP ${response.status}`);
+    blob = await response.blob();
+  } else {
+    const bytes = files?.get(reference) ?? files?.get(`images/${reference}`);
+    if (!bytes) {
+      throw new Error(files
+        ? `"${reference}" is not in the zip file`
+        : `"${reference}" is a file name; put the CSV and its images in a zip to import it`);
+    }
+    blob = new Blob([bytes as BlobPart], { type: mimeTypeFor(reference) ?? '' });
+  }
+  const name = reference.split('/').pop() || 'image';
+  return preprocessImage(new File([blob], name, { type: blob.type || mimeTypeFor(name) || '' }));
+};
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const parseManifest = async (files: Map<string, Uint8Array>, categories: string[]): Promise<ParsedImport> => {
+  let manifest: Partial<Manifest>;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(files.get(MANIFEST_FILE)));
+  } catch {
+    throw new CatalogImportError('The bundle manifest is not valid JSON.');
+  }
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new CatalogImportError('This zip is not a TrendLens catalog bundle.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new CatalogImportError('This bundle was made by a newer version of the app and cannot be imported.');
+  }
+
+  const candidates: Omit<ImportCandidate, 'duplicateOf'>[] = [];
+  const errors: string[] = [];
+  for (const [index, entry] of (manifest.items as unknown[]).entries()) {
+    const source = `item ${index + 1}`;
+    const { name, category, image, brand, tags, attributes } = (entry ?? {}) as Record<string, unknown>;
+    const parsedCategory = parseCategory(category, categories);
+    if (typeof name !== 'string' || !name.trim()) {
+      errors.push(`${source}: missing name`);
+      continue;
+    }
+    if (!parsedCategory) {
+      errors.push(`${source} (${name}): missing category`);
+      continue;
+    }
+    const bytes = typeof image === 'string' ? files.get(image) : undefined;
+    if (!bytes) {
+      errors.push(`${source} (${name}): image file is missing from the bundle`);
+      continue;
+    }
+    try {
+      candidates.push({
+        source,
+        item: {
+          name: name.trim(),
+          category: parsedCategory,
+          imageData: await readBundleImage(bytes, image as string),
+          brand: typeof brand === 'string' && brand.trim() ? brand.trim() : undefined,
+          tags: isStringArray(tags) ? tags : undefined,
+          attributes: parseAttributes(attributes),
+        },
+      });
+    } catch (err) {
+      errors.push(`${source} (${name}): ${describeError(err)}`);
+    }
+  }
+  return { candidates, errors };
+};
+
+const CSV_COLUMNS = {
+  name: ['name'],
+  category: ['category'],
+  image: ['image', 'image_url', 'imageurl', 'url', 'filename', 'file'],
+  brand: ['brand'],
+  tags: ['tags'],
+};
+
+const parseCsvCatalog = async (text: string, files: Map<string, Uint8Array> | null, categories: string[]): Promise<ParsedImport> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new CatalogImportError('The CSV file is empty.');
+  const headings = header.map(heading => heading.trim().toLowerCase());
+  const column = (aliases: string[]) => headings.findIndex(heading => aliases.includes(heading));
+  const columns = {
+    name: column(CSV_COLUMNS.name),
+    category: column(CSV_COLUMNS.category),
+    image: column(CSV_COLUMNS.image),
+    brand: column(CSV_COLUMNS.brand),
+    tags: column(CSV_COLUMNS.tags),
+  };
+  if (columns.name < 0 || columns.category < 0 || columns.image < 0) {
+    throw new CatalogImportError('The CSV needs a header row with "name", "category" and "image" columns.');
+  }
+
+  const candidates: Omit<ImportCandidate, 'duplicateOf'>[] = [];
+  const errors: string[] = [];
+  for (const [index, row] of rows.entries()) {
+    const source = `row ${index + 2}`; // 1-based, after the header
+    const value = (i: number) => (i >= 0 ? row[i]?.trim() ?? '' : '');
+    const name = value(columns.name);
+    const category = parseCategory(value(columns.category), categories);
+    const image = value(columns.image);
+    if (!name) {
+      errors.push(`${source}: missing name`);
+      continue;
+    }
+    if (!category) {
+      errors.push(`${source} (${name}): missing category`);
+      continue;
+    }
+    if (!image) {
+      errors.push(`${source} (${name}): missing image`);
+      continue;
+    }
+    try {
+      const tags = value(columns.tags).split(';').map(tag => tag.trim()).filter(Boolean);
+      candidates.push({
+        source,
+        item: {
+          name,
+          category,
+          imageData: await readSourceImage(image, files),
+          brand: value(columns.brand) || undefined,
+          tags: tags.length ? tags : undefined,
+        },
+      });
+    } catch (err) {
+      errors.push(`${source} (${name}): ${describeError(err)}`);
+    }
+  }
+  return { candidates, errors };
+};
+
+// Reads and validates an import file without touching the catalog, so the user can review
+// what will be added and choose between merging and replacing
+export const prepareImport = async (file: File, existingItems: ClothingItem[], categories: string[]): Promise<ImportPreview> => {
+  let parsed: ParsedImport;
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    parsed = await parseCsvCatalog(await file.text(), null, categories);
+  } else {
+    let files: Map<string, Uint8Array>;
+    try {
+      files = await readZip(file);
+    } catch (err) {
+      throw new CatalogImportError(`This file could not be opened as a zip bundle: ${describeError(err)}`);
+    }
+    const csvPath = [...files.keys()].find(path => /\.csv$/i.test(path));
+    if (files.has(MANIFEST_FILE)) {
+      parsed = await parseManifest(files, categories);
+    } else if (csvPath) {
+      parsed = await parseCsvCatalog(new TextDecoder().decode(files.get(csvPath)), files, categories);
+    } else {
+      throw new CatalogImportError('The zip contains neither a manifest.json nor a CSV file.');
+    }
+  }
+
+  const existingHashes = new Map<string, string>();
+  for (const item of existingItems) {
+    existingHashes.set(await hashImage(item.imageData), item.name);
+  }
+
+  // The same image twice within one import is always an error; a match in the catalog only
+  // matters when merging, so it is flagged and left to the import mode to resolve
+  const seen = new Map<string, string>();
+  const candidates: ImportCandidate[] = [];
+  const errors = [...parsed.errors];
+  for (const candidate of parsed.candidates) {
+    const hash = await hashImage(candidate.item.imageData);
+    const firstSource = seen.get(hash);
+    if (firstSource) {
+      errors.push(`${candidate.source} (${candidate.item.name}): same image as ${firstSource}`);
+      continue;
+    }
+    seen.set(hash, candidate.source);
+    candidates.push({ ...candidate, duplicateOf: existingHashes.get(hash) });
+  }
+  return { candidates, errors };
+};
+
+export const selectItemsToImport = (preview: ImportPreview, mode: ImportMode): ImportedItem[] =>
+  preview.candidates
+    .filter(candidate => mode === 'replace' || !candidate.duplicateOf)
+    .map(candidate => candidate.item);
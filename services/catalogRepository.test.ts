@@ -0,0 +1,41 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const newItem = (name: string) => ({
+    name,
+    category: 'Tops',
+    imageData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+});
+
+describe('catalog ids', () => {
+    beforeEach(() => {
+        globalThis.indexedDB = new IDBFactory();
+        vi.resetModules();
+        // Everything below happens within the same millisecond
+        vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('never reuses an id, even for imports and additions made at the same moment', async () => {
+        const catalog = await import("./catalogRepository");
+
+        const first = await catalog.importItems([newItem('A'), newItem('B'), newItem('C')], 'merge');
+        const second = await catalog.importItems([newItem('D'), newItem('E')], 'merge');
+        const added = await catalog.addItem(newItem('F'));
+
+        const ids = [...first, ...second, added].map(item => item.id);
+        expect(new Set(ids).size).toBe(ids.length);
+        expect((await catalog.listItems()).filter(item => item.addedAt === 1_700_000_000_000)).toHaveLength(6);
+    });
+
+    it('keeps imported items in file order', async () => {
+        const catalog = await import("./catalogRepository");
+
+        const imported = await catalog.importItems([newItem('A'), newItem('B')], 'replace');
+
+        expect(imported[1].id).toBe(imported[0].id + 1);
+    });
+});
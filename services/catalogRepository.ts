@@ -0,0 +1,74 @@
+import { ClothingItem } from "../data/clothingItems";
+import { isImagePayload } from "../utils/imagePayload";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+// Newest additions first; bundled seed items (addedAt 0) keep their original order
+const byNewest = (a: ClothingItem, b: ClothingItem) =>
+    (b.addedAt ?? 0) - (a.addedAt ?? 0) || a.id - b.id;
+
+export const listItems = async (): Promise<ClothingItem[]> => {
+    const items = await withStore(STORES.clothingItems, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<ClothingItem[]>)
+    );
+    // Never hand a malformed image to the UI; it would only fail later, during a render
+    return items.filter(item => isImagePayload(item.imageData)).sort(byNewest);
+};
+
+// Ids follow the clock but never reuse one already taken, e.g. by an import earlier in the same millisecond.
+// Read inside the writing transaction, so concurrent additions cannot pick the same id.
+const nextFreeId = async (store: IDBObjectStore, now: number): Promise<number> => {
+    const cursor = await requestToPromise(store.openKeyCursor(null, 'prev'));
+    const highest = typeof cursor?.key === 'number' ? cursor.key : 0;
+    return Math.max(now, highest + 1);
+};
+
+// New items go to the front of the user's custom order, ahead of everything reordered so far
+export const addItem = async (item: Omit<ClothingItem, 'id' | 'addedAt'>): Promise<ClothingItem> => {
+    const now = Date.now();
+    return withStore(STORES.clothingItems, 'readwrite', async store => {
+        const newItem: ClothingItem = { ...item, id: await nextFreeId(store, now), addedAt: now, sortOrder: -now };
+        await requestToPromise(store.add(newItem));
+        return newItem;
+    });
+};
+
+export const updateItem = async (item: ClothingItem): Promise<ClothingItem> => {
+    await withStore(STORES.clothingItems, 'readwrite', store => requestToPromise(store.put(item)));
+    return item;
+};
+
+// Writes several items in one transaction, e.g. after a bulk edit or a reorder
+export const updateItems = async (items: ClothingItem[]): Promise<ClothingItem[]> => {
+    await withStore(STORES.clothingItems, 'readwrite', async store => {
+        for (const item of items) {
+            await requestToPromise(store.put(item));
+        }
+    });
+    return items;
+};
+
+export const removeItems = async (ids: number[]): Promise<void> => {
+    await withStore(STORES.clothingItems, 'readwrite', async store => {
+        for (const id of ids) {
+            await requestToPromise(store.delete(id));
+        }
+    });
+};
+
+// Puts removed items back unchanged, ids included, so looks that reference them resolve again
+export const restoreItems = updateItems;
+
+// Adds many items in one transaction; 'replace' clears the catalog first. Ids stay unique
+// and ascending so imported items keep their file order among the newest additions.
+export const importItems = async (items: Omit<ClothingItem, 'id' | 'addedAt'>[], mode: 'merge' | 'replace'): Promise<ClothingItem[]> => {
+    const now = Date.now();
+    return withStore(STORES.clothingItems, 'readwrite', async store => {
+        if (mode === 'replace') await requestToPromise(store.clear());
+        const firstId = await nextFreeId(store, now);
+        const newItems = items.map((item, index): ClothingItem => ({ ...item, id: firstId + index, addedAt: now, sortOrder: -now + index }));
+        for (const item of newItems) {
+            await requestToPromise(store.add(item));
+        }
+        return newItems;
+    });
+};
@@ -0,0 +1,34 @@
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+interface CategoryRecord {
+    name: string;
+    position: number; // Categories are listed in the order they were added
+}
+
+export const listCategories = async (): Promise<string[]> => {
+    const records = await withStore(STORES.categories, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<CategoryRecord[]>)
+    );
+    return records.sort((a, b) => a.position - b.position).map(record => record.name);
+};
+
+// Adds any of `names` not yet in the list, keeping their order; returns the full list
+export const addCategories = async (names: string[]): Promise<string[]> => {
+    const existing = await listCategories();
+    const added = names
+        .map(name => name.trim())
+        .filter((name, index, all) => name && !existing.includes(name) && all.indexOf(name) === index);
+    if (added.length === 0) return existing;
+
+    const now = Date.now();
+    await withStore(STORES.categories, 'readwrite', async store => {
+        for (const [index, name] of added.entries()) {
+            await requestToPromise(store.put({ name, position: now + index }));
+        }
+    });
+    return [...existing, ...added];
+};
+
+export const removeCategory = async (name: string): Promise<void> => {
+    await withStore(STORES.categories, 'readwrite', store => requestToPromise(store.delete(name)));
+};
@@ -0,0 +1,34 @@
+import { LookRecord } from "../types";
+import { isImagePayload } from "../utils/imagePayload";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+export const listLooks = async (): Promise<LookRecord[]> => {
+    const looks = await withStore(STORES.looks, 'readonly', store =>
+        requestToPromise(store.index('createdAt').getAll() as IDBRequest<LookRecord[]>)
+    );
+    return looks
+        .filter(look => isImagePayload(look.modelImage) && isImagePayload(look.generatedImage))
+        .reverse(); // Newest first
+};
+
+export const saveLook = async (look: LookRecord): Promise<LookRecord> => {
+    await withStore(STORES.looks, 'readwrite', store => requestToPromise(store.put(look)));
+    return look;
+};
+
+// Merges `changes` into the stored look and returns the updated record
+export const updateLook = async (id: string, changes: Partial<Omit<LookRecord, 'id'>>): Promise<LookRecord> => {
+    return withStore(STORES.looks, 'readwrite', async store => {
+        const existing = await requestToPromise(store.get(id) as IDBRequest<LookRecord | undefined>);
+        if (!existing) {
+            throw new Error(`Look ${id} no longer exists in the history.`);
+        }
+        const updated = { ...existing, ...changes };
+        await requestToPromise(store.put(updated));
+        return updated;
+    });
+};
+
+export const deleteLook = async (id: string): Promise<void> => {
+    await withStore(STORES.looks, 'readwrite', store => requestToPromise(store.delete(id)));
+};
@@ -0,0 +1,49 @@
+import { Garment, ModelSubject, TrendAnalysisResult } from "../types";
+import { ImagePayload } from "../utils/imagePayload";
+import { SceneSettings } from "../data/scenePresets";
+import { analyzeTrend, generateStyledImage } from "./geminiService";
+import { PipelineStage } from "./pipeline";
+
+export interface LookPipelineContext {
+    model: ModelSubject;
+    scene: SceneSettings;
+    garments: Garment[];
+    generatedImage?: ImagePayload;
+    trendResult?: TrendAnalysisResult;
+    // Versions of the prompt templates the stages rendered
+    composeTemplateVersion?: number;
+    analysisTemplateVersion?: number;
+}
+
+// Generate Look followed by Analyze Trend; append new stages here to extend the flow
+export const lookPipelineStages: PipelineStage<LookPipelineContext>[] = [
+    {
+        id: 'generate',
+        label: 'Generate Look',
+        runningMessage: 'Generating your look...',
+        run: async ({ model, garments, scene }, options) => {
+            let composeTemplateVersion: number | undefined;
+            const generatedImage = await generateStyledImage(model, garments, scene, {
+                ...options,
+                onPromptRendered: template => { composeTemplateVersion = template.version; },
+            });
+            return { generatedImage, composeTemplateVersion };
+        },
+    },
+    {
+        id: 'analyze',
+        label: 'Analyze Trend',
+        runningMessage: 'Analyzing the trend...',
+        run: async ({ generatedImage, garments }, options) => {
+            if (!generatedImage) {
+                throw new Error('There is no generated image to analyze.');
+            }
+            let analysisTemplateVersion: number | undefined;
+            const trendResult = await analyzeTrend(generatedImage, garments, {
+                ...options,
+                onPromptRendered: template => { analysisTemplateVersion = template.version; },
+            });
+            return { trendResult, analysisTemplateVersion };
+        },
+    },
+];
@@ -0,0 +1,23 @@
+import { ModelProfile } from "../types";
+import { isImagePayload } from "../utils/imagePayload";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+export const listProfiles = async (): Promise<ModelProfile[]> => {
+    const profiles = await withStore(STORES.modelProfiles, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<ModelProfile[]>)
+    );
+    // A profile is only usable with at least one readable photo
+    return profiles
+        .map(profile => ({ ...profile, photos: profile.photos.filter(isImagePayload) }))
+        .filter(profile => profile.photos.length > 0)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProfile = async (profile: ModelProfile): Promise<ModelProfile> => {
+    await withStore(STORES.modelProfiles, 'readwrite', store => requestToPromise(store.put(profile)));
+    return profile;
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+    await withStore(STORES.modelProfiles, 'readwrite', store => requestToPromise(store.delete(id)));
+};
@@ -0,0 +1,103 @@
+import { CancelledError } from "../utils/errors";
+import { RequestOptions } from "./providers";
+
+export type StageStatus =
+    | { kind: 'queued' }
+    | { kind: 'running' }
+    | { kind: 'retrying'; attempt: number }
+    | { kind: 'done' }
+    | { kind: 'failed'; error: unknown };
+
+export type StageStatuses = Record<string, StageStatus>;
+
+// One step of a pipeline. `run` returns the outputs it adds to the shared context.
+export interface PipelineStage<C> {
+    id: string;
+    label: string;
+    runningMessage: string;
+    run: (context: C, options: RequestOptions) => Promise<Partial<C>>;
+}
+
+// Overall state of a pipeline, derived from its stage statuses
+export type PipelineState =
+    | { kind: 'idle' }
+    | { kind: 'running'; stageId: string }
+    | { kind: 'retrying'; stageId: string; attempt: number }
+    | { kind: 'done' }
+    | { kind: 'failed'; stageId: string; error: unknown };
+
+export interface RunPipelineOptions<C> {
+    // Stages already marked done are skipped, so a retry resumes where the last run stopped
+    statuses: StageStatuses;
+    signal?: AbortSignal;
+    // Passed to every stage; see RequestOptions.forceRefresh
+    forceRefresh?: boolean;
+    onStatusChange: (statuses: StageStatuses) => void;
+    onStageComplete?: (stageId: string, context: C) => Promise<void> | void;
+}
+
+export const createStageStatuses = <C>(stages: PipelineStage<C>[]): StageStatuses =>
+    Object.fromEntries(stages.map(stage => [stage.id, { kind: 'queued' } as StageStatus]));
+
+// Marks `stageId` and every stage after it as queued again, keeping earlier results
+export const resetFromStage = <C>(stages: PipelineStage<C>[], statuses: StageStatuses, stageId: string): StageStatuses => {
+    const index = stages.findIndex(stage => stage.id === stageId);
+    return Object.fromEntries(stages.map((stage, i) => [
+        stage.id,
+        i >= index ? { kind: 'queued' } as StageStatus : statuses[stage.id],
+    ]));
+};
+
+// Puts stages that were interrupted mid-flight back in the queue
+export const resetInterruptedStages = (statuses: StageStatuses): StageStatuses =>
+    Object.fromEntries(Object.entries(statuses).map(([id, status]) => [
+        id,
+        status.kind === 'running' || status.kind === 'retrying' ? { kind: 'queued' } as StageStatus : status,
+    ]));
+
+export const getPipelineState = <C>(stages: PipelineStage<C>[], statuses: StageStatuses): PipelineState => {
+    for (const stage of stages) {
+        const status = statuses[stage.id];
+        if (status.kind === 'failed') return { kind: 'failed', stageId: stage.id, error: status.error };
+        if (status.kind === 'running') return { kind: 'running', stageId: stage.id };
+        if (status.kind === 'retrying') return { kind: 'retrying', stageId: stage.id, attempt: status.attempt };
+    }
+    if (stages.every(stage => statuses[stage.id].kind === 'done')) return { kind: 'done' };
+    return { kind: 'idle' };
+};
+
+// Runs every stage that is not done yet, in order, threading outputs through the context.
+// Rejects with the failing stage's error, or CancelledError if `signal` aborts.
+export const runPipeline = async <C>(
+    stages: PipelineStage<C>[],
+    initialContext: C,
+    { statuses: initialStatuses, signal, forceRefresh, onStatusChange, onStageComplete }: RunPipelineOptions<C>
+): Promise<C> => {
+    let context = initialContext;
+    let statuses = initialStatuses;
+
+    const setStatus = (stageId: string, status: StageStatus) => {
+        statuses = { ...statuses, [stageId]: status };
+        onStatusChange(statuses);
+    };
+
+    for (const stage of stages) {
+        if (statuses[stage.id]?.kind === 'done') continue;
+
+        setStatus(stage.id, { kind: 'running' });
+        try {
+            const output = await stage.run(context, {
+                signal,
+                forceRefresh,
+                onRetry: (attempt) => setStatus(stage.id, { kind: 'retrying', attempt }),
+            });
+            context = { ...context, ...output };
+        } catch (err) {
+            setStatus(stage.id, err instanceof CancelledError ? { kind: 'queued' } : { kind: 'failed', error: err });
+            throw err;
+        }
+        setStatus(stage.id, { kind: 'done' });
+        await onStageComplete?.(stage.id, context);
+    }
+    return context;
+};
@@ -0,0 +1,30 @@
+import {
+    BACKGROUND_PRESETS,
+    FRAMING_PRESETS,
+    LIGHTING_PRESETS,
+    POSE_PRESETS,
+    ScenePreset,
+    SceneSettings,
+} from "../data/scenePresets";
+
+// Unknown ids (e.g. from a look saved by a newer version) fall back to the first preset
+const findPreset = <Id extends string>(presets: ScenePreset<Id>[], id: Id): ScenePreset<Id> =>
+    presets.find(preset => preset.id === id) ?? presets[0];
+
+// Composes the staging instructions of a generation prompt from the selected presets
+export const buildSceneDirections = (scene: SceneSettings): string => {
+    const background = findPreset(BACKGROUND_PRESETS, scene.background).prompt.replace('{color}', scene.backgroundColor);
+    const pose = findPreset(POSE_PRESETS, scene.pose).prompt;
+    const framing = findPreset(FRAMING_PRESETS, scene.framing).prompt;
+    const lighting = findPreset(LIGHTING_PRESETS, scene.lighting).prompt;
+
+    return `The final output should be a high-quality, professional-looking photo suitable for an e-commerce website or a fashion lookbook. ${pose} ${framing} ${background} Pay close attention to realistic details: ensure the clothing drapes and fits the model's body naturally, ${lighting}, and the textures of the fabric are accurately rendered. The final image should ONLY contain the styled model and the background, with no extra text or artifacts.`;
+};
+
+// Short label for the UI and reports, e.g. "Street · Walking · Full body · Golden hour"
+export const describeScene = (scene: SceneSettings): string => [
+    scene.background === 'color' ? scene.backgroundColor : findPreset(BACKGROUND_PRESETS, scene.background).label,
+    findPreset(POSE_PRESETS, scene.pose).label,
+    findPreset(FRAMING_PRESETS, scene.framing).label,
+    findPreset(LIGHTING_PRESETS, scene.lighting).label,
+].join(' · ');
@@ -0,0 +1,21 @@
+import { PromptTemplate, PromptTemplateId } from "../data/promptTemplates";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+// Every saved version of every template, oldest first
+export const listTemplates = async (): Promise<PromptTemplate[]> => {
+    const templates = await withStore(STORES.promptTemplates, 'readonly', store =>
+        requestToPromise(store.getAll() as IDBRequest<PromptTemplate[]>)
+    );
+    return templates.sort((a, b) => a.version - b.version);
+};
+
+// Versions are never overwritten; an edit is stored as the next version of the template
+export const saveTemplateVersion = async (id: PromptTemplateId, text: string): Promise<PromptTemplate> => {
+    return withStore(STORES.promptTemplates, 'readwrite', async store => {
+        const existing = await requestToPromise(store.getAll() as IDBRequest<PromptTemplate[]>);
+        const latest = Math.max(0, ...existing.filter(template => template.id === id).map(template => template.version));
+        const template: PromptTemplate = { id, version: latest + 1, text, createdAt: Date.now() };
+        await requestToPromise(store.add(template));
+        return template;
+    });
+};
@@ -0,0 +1,61 @@
+import { SEASONS } from "../data/clothingItems";
+import { DEFAULT_MARKET, DEFAULT_PROMPT_TEMPLATES, PROMPT_VARIABLES, PromptTemplate, PromptTemplateId } from "../data/promptTemplates";
+import { Garment } from "../types";
+
+export type PromptVariables = Record<string, string>;
+
+const latestVersions = (templates: PromptTemplate[]): Record<PromptTemplateId, PromptTemplate> => {
+    const latest = {} as Record<PromptTemplateId, PromptTemplate>;
+    [...DEFAULT_PROMPT_TEMPLATES, ...templates].forEach(template => {
+        if (!latest[template.id] || template.version > latest[template.id].version) {
+            latest[template.id] = template;
+        }
+    });
+    return latest;
+};
+
+// The templates and market the providers build their prompts from; the app loads
+// the saved ones at startup and after every edit
+let activeTemplates = latestVersions([]);
+let activeMarket = DEFAULT_MARKET;
+
+export const setPromptTemplates = (templates: PromptTemplate[]) => {
+    activeTemplates = latestVersions(templates);
+};
+
+export const setPromptMarket = (market: string) => {
+    activeMarket = market.trim() || DEFAULT_MARKET;
+};
+
+export const getActiveTemplate = (id: PromptTemplateId): PromptTemplate => activeTemplates[id];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown variables are left in place so a typo shows up in the output rather than vanishing
+export const renderTemplate = (text: string, variables: PromptVariables): string =>
+    text.replace(VARIABLE_PATTERN, (placeholder, name: string) => variables[name] ?? placeholder);
+
+// Variables in `text` that template `id` does not provide, for the editor to warn about
+export const findUnknownVariables = (id: PromptTemplateId, text: string): string[] => {
+    const known = PROMPT_VARIABLES[id].map(variable => variable.name);
+    const used = [...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+    return [...new Set(used)].filter(name => !known.includes(name));
+};
+
+// Northern-hemisphere season for today, used when no garment lists its seasons
+const currentSeason = (): string => SEASONS[Math.floor(((new Date().getMonth() + 10) % 12) / 3)];
+
+const joinUnique = (values: string[]): string => [...new Set(values)].join(', ');
+
+// The variables every template can use, derived from the garments being styled
+export const buildGarmentVariables = (garments: Garment[]): PromptVariables => {
+    const seasons = garments.flatMap(garment => garment.attributes?.seasons ?? []);
+    return {
+        garmentName: joinUnique(garments.map(garment => garment.name)),
+        category: joinUnique(garments.map(garment => garment.category)),
+        season: seasons.length > 0
+            ? SEASONS.filter(season => seasons.includes(season)).join(', ')
+            : currentSeason(),
+        market: activeMarket,
+    };
+};
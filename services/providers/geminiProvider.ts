@@ -0,0 +1,495 @@
+import { Candidate, GoogleGenAI, HarmProbability, SafetyRating, GenerateContentParameters, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { ClothingCategory, SEASONS } from "../../data/clothingItems";
+import { SceneSettings } from "../../data/scenePresets";
+import { PromptTemplate } from "../../data/promptTemplates";
+import { Garment, GarmentTagSuggestion, ModelSubject, PairwiseVerdict, TrendAnalysisResult } from "../../types";
+import { BlockedOperation, BlockReason, EmptyResponseError, GenerationBlock, SafetyBlockedError } from "../../utils/errors";
+import { explainBlock } from "../../utils/safetyGuidance";
+import { createImagePayload, ImagePayload, isImagePayload } from "../../utils/imagePayload";
+import { buildSceneDirections } from "../promptBuilder";
+import { buildGarmentVariables, getActiveTemplate, renderTemplate } from "../promptTemplates";
+import { cachedRequest } from "../responseCache";
+import { acquireRequestSlot } from "../rateLimiter";
+import { recordResponse } from "../usageLedger";
+import { getRetryPolicy, retryWithPolicy, withTimeout } from "../retryPolicy";
+import { AiProvider, ComposeOptions, RequestOptions } from "./types";
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const ANALYSIS_MODEL = 'gemini-2.5-pro';
+// Tagging runs on every image the user picks, so it uses a faster model than trend analysis
+const TAGGING_MODEL = 'gemini-2.5-flash';
+
+// Created lazily so the app can boot without an API key when another provider is selected
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+    }
+    return client;
+};
+
+// Time limits per attempt; image generation is by far the slowest call
+const IMAGE_TIMEOUT_MS = 120_000;
+const ANALYSIS_TIMEOUT_MS = 90_000;
+const TAGGING_TIMEOUT_MS = 30_000;
+
+// Finish and block reasons that mean the AI refused or filtered the request. Both enums share
+// these values; STOP, MAX_TOKENS and the like are not blocks.
+const BLOCK_REASONS: Record<string, BlockReason> = {
+    SAFETY: 'safety',
+    BLOCKLIST: 'safety',
+    IMAGE_SAFETY: 'safety',
+    PROHIBITED_CONTENT: 'prohibited',
+    IMAGE_PROHIBITED_CONTENT: 'prohibited',
+    MODEL_ARMOR: 'prohibited',
+    SPII: 'personalInfo',
+    RECITATION: 'recitation',
+    NO_IMAGE: 'refused',
+    OTHER: 'other',
+};
+
+const FLAGGED_PROBABILITIES: string[] = [HarmProbability.MEDIUM, HarmProbability.HIGH];
+
+const getFlaggedCategories = (ratings: SafetyRating[] = []): string[] =>
+    ratings
+        .filter(rating => rating.blocked || (rating.probability && FLAGGED_PROBABILITIES.includes(rating.probability)))
+        .flatMap(rating => rating.category ? [rating.category] : []);
+
+// Text the model wrote, leaving out its thinking
+const getCandidateText = (candidate?: Candidate): string | null =>
+    candidate?.content?.parts
+        ?.filter(part => part.text && !part.thought)
+        .map(part => part.text)
+        .join(' ')
+        .trim() || null;
+
+const createBlockedError = (block: GenerationBlock): SafetyBlockedError =>
+    new SafetyBlockedError(block, `${explainBlock(block).title}.`);
+
+// Every request goes through the rate limiter, is recorded in the usage ledger and is
+// given `timeoutMs` once it is actually sent. Blocked or empty responses are rejected here.
+const generateContent = async (
+    operation: BlockedOperation,
+    params: GenerateContentParameters,
+    timeoutMs: number
+): Promise<GenerateContentResponse> => {
+    const signal = params.config?.abortSignal;
+    await acquireRequestSlot(params.model, signal);
+    const response = await withTimeout(timeoutMs, signal, attemptSignal =>
+        getClient().models.generateContent({ ...params, config: { ...params.config, abortSignal: attemptSignal } })
+    );
+    const usage = response.usageMetadata;
+    recordResponse(params.model, {
+        images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData).length ?? 0,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    });
+
+    const feedback = response.promptFeedback;
+    if (feedback?.blockReason) {
+        throw createBlockedError({
+            operation,
+            reason: BLOCK_REASONS[feedback.blockReason] ?? 'other',
+            source: 'input',
+            categories: getFlaggedCategories(feedback.safetyRatings),
+            modelMessage: feedback.blockReasonMessage ?? null,
+        });
+    }
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason && BLOCK_REASONS[candidate.finishReason]) {
+        throw createBlockedError({
+            operation,
+            reason: BLOCK_REASONS[candidate.finishReason],
+            source: 'output',
+            categories: getFlaggedCategories(candidate.safetyRatings),
+            modelMessage: getCandidateText(candidate) ?? candidate.finishMessage ?? null,
+        });
+    }
+    if (!candidate?.content?.parts?.length) {
+        throw new EmptyResponseError();
+    }
+    return response;
+};
+
+const callGeminiWithRetry = <T>(apiCall: () => Promise<T>, options: RequestOptions = {}): Promise<T> =>
+    retryWithPolicy(apiCall, options, getRetryPolicy());
+
+// Helper function to create an image part for the API
+const createImagePart = ({ mimeType, data }: ImagePayload) => {
+    return {
+        inlineData: {
+            mimeType,
+            data,
+        },
+    };
+};
+
+// The image model sometimes answers in text instead, usually to decline; that reply is surfaced as a block
+const extractImage = (response: GenerateContentResponse, operation: BlockedOperation): ImagePayload | null => {
+    const candidate = response.candidates?.[0];
+    const imagePart = candidate?.content?.parts?.find(part => part.inlineData?.mimeType && part.inlineData.data);
+    if (imagePart?.inlineData?.mimeType && imagePart.inlineData.data) {
+        return createImagePayload(imagePart.inlineData.mimeType, imagePart.inlineData.data);
+    }
+    const text = getCandidateText(candidate);
+    if (text) {
+        throw createBlockedError({ operation, reason: 'refused', source: 'output', categories: [], modelMessage: text });
+    }
+    return null;
+};
+
+// How each category is worn when several garments are combined into one outfit
+const LAYERING_INSTRUCTIONS: Record<ClothingCategory, string> = {
+    Dresses: 'worn as the main piece, replacing any top and bottom the model is wearing',
+    Tops: 'worn as the base layer on the upper body',
+    Bottoms: 'worn on the lower body, with the top tucked in or draped over the waistband as suits its style',
+    Outerwear: 'worn as the outermost layer over everything else, open or closed as suits the garment',
+    Shoes: 'worn on the feet, replacing any footwear the model is wearing',
+    Accessories: 'worn or carried where such an accessory naturally goes',
+    Bags: 'carried in the hand or over the shoulder as suits its style',
+};
+// User-defined categories have no instructions of their own
+const DEFAULT_LAYERING_INSTRUCTION = 'added to the outfit where it is naturally worn or carried';
+
+const buildComposePrompt = (template: PromptTemplate, model: ModelSubject, garments: Garment[], scene: SceneSettings): string => {
+    // Garment images follow the model's reference photos
+    const photoCount = model.photos.length;
+    const modelSource = photoCount === 1
+        ? 'the model from the first image'
+        : `the model shown in the first ${photoCount} images (reference photos of the same person; keep their face, body and proportions consistent with all of them)`;
+    const modelNotes = model.notes.trim()
+        ? ` Notes about the model from the stylist: ${model.notes.trim()}. Take them into account when fitting the clothes.`
+        : '';
+
+    let garmentSource: string;
+    if (garments.length === 1) {
+        garmentSource = `the clothing item from ${photoCount === 1 ? 'the second image' : `image ${photoCount + 1}`}.`;
+    } else {
+        const garmentList = garments
+            .map((garment, index) => `- Image ${index + photoCount + 1}: ${garment.name} (${garment.category}), ${LAYERING_INSTRUCTIONS[garment.category] ?? DEFAULT_LAYERING_INSTRUCTION}.`)
+            .join('\n');
+        garmentSource = `a complete outfit made of the garments in the following images, listed from the innermost layer outwards:\n${garmentList}\nLayer the garments realistically: inner layers must stay visible where they naturally would (collars, hems, cuffs), and every garment must keep its own colour, pattern and texture.`;
+    }
+
+    return renderTemplate(template.text, {
+        ...buildGarmentVariables(garments),
+        modelSource,
+        garmentSource,
+        sceneDirections: buildSceneDirections(scene),
+        modelNotes,
+    });
+};
+
+const composeImage = async (
+    model: ModelSubject,
+    garments: Garment[],
+    scene: SceneSettings,
+    options: ComposeOptions = {}
+): Promise<ImagePayload> => {
+    const template = getActiveTemplate('compose');
+    const prompt = buildComposePrompt(template, model, garments, scene);
+    options.onPromptRendered?.(template);
+    const images = [...model.photos, ...garments.map(garment => garment.imageData)];
+    const request = (requestOptions: RequestOptions) => callGeminiWithRetry(async () => {
+        const modelImageParts = model.photos.map(createImagePart);
+        const garmentImageParts = garments.map(garment => createImagePart(garment.imageData));
+
+        const response = await generateContent('compose', {
+            model: IMAGE_MODEL,
+            contents: {
+                parts: [
+                    ...modelImageParts,
+                    ...garmentImageParts,
+                    {
+                        text: prompt,
+                    },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                seed: options.seed,
+                abortSignal: requestOptions.signal,
+            },
+        }, IMAGE_TIMEOUT_MS);
+
+        const image = extractImage(response, 'compose');
+        if (image) {
+            return image;
+        }
+
+        throw new EmptyResponseError('Could not generate styled image. The API did not return an image.');
+    }, requestOptions);
+    return cachedRequest({ kind: 'compose', model: IMAGE_MODEL, prompt, images, seed: options.seed }, options, isImagePayload, request);
+};
+
+// Tells the forecaster what the look is made of, so multi-garment outfits are scored as a whole
+const describeGarmentsForAnalysis = (garments: Garment[]): string => {
+    if (garments.length < 2) return '';
+    const garmentList = garments.map(garment => `${garment.name} (${garment.category})`).join(', ');
+    return `The model is wearing a complete outfit made of: ${garmentList}. Score the outfit as a whole, including how well the pieces work together, rather than any single garment. `;
+};
+
+const buildAnalysisPrompt = (template: PromptTemplate, garments: Garment[]): string =>
+    renderTemplate(template.text, {
+        ...buildGarmentVariables(garments),
+        outfitDescription: describeGarmentsForAnalysis(garments),
+    });
+
+// Cached analyses from older versions of the schema are re-requested rather than shown half-empty
+const isTrendAnalysisResult = (value: unknown): value is TrendAnalysisResult =>
+    typeof value === 'object' && value !== null
+    && typeof (value as TrendAnalysisResult).score === 'number'
+    && Array.isArray((value as TrendAnalysisResult).suggestions);
+
+const analyzeTrend = async (
+    generatedImage: ImagePayload,
+    garments: Garment[],
+    options: RequestOptions = {}
+): Promise<TrendAnalysisResult> => {
+    const template = getActiveTemplate('analysis');
+    const prompt = buildAnalysisPrompt(template, garments);
+    options.onPromptRendered?.(template);
+    const request = (requestOptions: RequestOptions) => callGeminiWithRetry(async () => {
+        const imagePart = createImagePart(generatedImage);
+
+        const response = await generateContent('analyze', {
+            model: ANALYSIS_MODEL,
+            contents: {
+                parts: [
+                    imagePart,
+                    {
+                        text: prompt,
+                    },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                abortSignal: requestOptions.signal,
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        score: {
+                            type: Type.INTEGER,
+                            description: 'The trend score from 0 to 100.',
+                        },
+                        analysis: {
+                            type: Type.STRING,
+                            description: 'A brief analysis of the fashion trend.',
+                        },
+                        dimensions: {
+                            type: Type.OBJECT,
+                            description: 'Sub-scores from 0 to 100 for each aspect of the look.',
+                            properties: {
+                                colorPalette: { type: Type.INTEGER },
+                                silhouette: { type: Type.INTEGER },
+                                fabricTexture: { type: Type.INTEGER },
+                                styling: { type: Type.INTEGER },
+                                seasonality: { type: Type.INTEGER },
+                            },
+                            required: ['colorPalette', 'silhouette', 'fabricTexture', 'styling', 'seasonality'],
+                        },
+                        trendTags: {
+                            type: Type.ARRAY,
+                            description: 'Named trends detected in the look, e.g. "Y2K revival".',
+                            items: { type: Type.STRING },
+                        },
+                        targetDemographics: {
+                            type: Type.ARRAY,
+                            description: 'Audiences the look would appeal to most.',
+                            items: { type: Type.STRING },
+                        },
+                        suggestions: {
+                            type: Type.ARRAY,
+                            description: 'Concrete suggestions to improve marketability.',
+                            items: { type: Type.STRING },
+                        },
+                    },
+                    required: ['score', 'analysis', 'dimensions', 'trendTags', 'targetDemographics', 'suggestions'],
+                },
+            },
+        }, ANALYSIS_TIMEOUT_MS);
+
+        try {
+            const jsonText = response.text.trim();
+            const result = JSON.parse(jsonText) as TrendAnalysisResult;
+            if (typeof result.score !== 'number' || typeof result.analysis !== 'string') {
+                throw new Error('Missing score or analysis.');
+            }
+            // The structured fields are best-effort; never let a partial answer break the display
+            return {
+                ...result,
+                dimensions: result.dimensions ?? null,
+                trendTags: result.trendTags ?? [],
+                targetDemographics: result.targetDemographics ?? [],
+                suggestions: result.suggestions ?? [],
+            };
+        } catch (e) {
+            console.error("Failed to parse JSON response:", response.text);
+            throw new Error("Failed to analyze trend. The API returned an invalid format.");
+        }
+    }, requestOptions);
+    return cachedRequest({ kind: 'analysis', model: ANALYSIS_MODEL, prompt, images: [generatedImage] }, options, isTrendAnalysisResult, request);
+};
+
+const cleanupGarment = async (
+    image: ImagePayload,
+    options: RequestOptions = {}
+): Promise<ImagePayload> => {
+    return callGeminiWithRetry(async () => {
+        const response = await generateContent('cleanup', {
+            model: IMAGE_MODEL,
+            contents: {
+                parts: [
+                    createImagePart(image),
+                    {
+                        text: 'As an expert e-commerce product photographer and retoucher, produce a clean product photo of the main clothing item in this image. Remove everything that is not the garment itself: hangers, hands, people, furniture, bedding and any background clutter. Present the garment flat and front-facing, centred, fully visible and tightly framed, on a pure white (#FFFFFF) background with soft, even lighting. Preserve the garment\'s exact colours, pattern, texture, logos and details; do not restyle or redesign it. The final image should ONLY contain the garment on the white background, with no text, shadows or artifacts.',
+                    },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: options.signal,
+            },
+        }, IMAGE_TIMEOUT_MS);
+
+        const cleaned = extractImage(response, 'cleanup');
+        if (cleaned) {
+            return cleaned;
+        }
+
+        throw new EmptyResponseError('Could not clean up the garment. The API did not return an image.');
+    }, options);
+};
+
+const tagGarment = async (
+    image: ImagePayload,
+    categories: string[],
+    options: RequestOptions = {}
+): Promise<GarmentTagSuggestion> => {
+    return callGeminiWithRetry(async () => {
+        const response = await generateContent('tag', {
+            model: TAGGING_MODEL,
+            contents: {
+                parts: [
+                    createImagePart(image),
+                    {
+                        text: 'You are a fashion merchandiser cataloguing a product photo. Identify the main garment and suggest a short, descriptive product name (2-4 words, e.g. "Cropped Denim Jacket"), its category, its dominant colours (most prominent first, plain colour names), pattern, main material, sleeve length (omit for bottoms), garment length, and the seasons it suits best.',
+                    },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                abortSignal: options.signal,
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING, description: 'A short product name.' },
+                        category: { type: Type.STRING, enum: categories },
+                        colors: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        pattern: { type: Type.STRING, description: 'e.g. solid, floral, striped.' },
+                        material: { type: Type.STRING, description: 'e.g. denim, cotton jersey.' },
+                        sleeveLength: { type: Type.STRING, description: 'e.g. short, long, sleeveless.' },
+                        length: { type: Type.STRING, description: 'e.g. cropped, hip, knee, maxi.' },
+                        seasons: { type: Type.ARRAY, items: { type: Type.STRING, enum: [...SEASONS] } },
+                    },
+                    required: ['name', 'category', 'colors', 'pattern', 'material', 'seasons'],
+                },
+            },
+        }, TAGGING_TIMEOUT_MS);
+
+        try {
+            const { name, category, ...attributes } = JSON.parse(response.text.trim());
+            if (typeof name !== 'string' || !categories.includes(category)) {
+                throw new Error('Missing name or category.');
+            }
+            return {
+                name,
+                category,
+                attributes: {
+                    colors: attributes.colors ?? [],
+                    pattern: attributes.pattern ?? '',
+                    material: attributes.material ?? '',
+                    sleeveLength: attributes.sleeveLength || undefined,
+                    length: attributes.length || undefined,
+                    seasons: (attributes.seasons ?? []).filter((season: string) => (SEASONS as readonly string[]).includes(season)),
+                },
+            };
+        } catch (e) {
+            console.error("Failed to parse JSON response:", response.text);
+            throw new Error("Failed to tag the garment. The API returned an invalid format.");
+        }
+    }, options);
+};
+
+const judgePair = async (
+    imageA: ImagePayload,
+    imageB: ImagePayload,
+    options: RequestOptions = {}
+): Promise<PairwiseVerdict> => {
+    return callGeminiWithRetry(async () => {
+        const response = await generateContent('judge', {
+            model: ANALYSIS_MODEL,
+            contents: {
+                parts: [
+                    { text: 'Look A:' },
+                    createImagePart(imageA),
+                    { text: 'Look B:' },
+                    createImagePart(imageB),
+                    {
+                        text: 'You are a professional fashion trend forecaster acting as a judge. Compare Look A and Look B based on current global fashion trends (color palettes, silhouettes, fabrics, styling and seasonality). Decide which look is more on-trend and commercially promising, or declare a tie if they are genuinely equal. Give your confidence from 0 to 100, a brief explanation (2-3 sentences), and the key points that separated the two looks.',
+                    },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                abortSignal: options.signal,
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        winner: {
+                            type: Type.STRING,
+                            enum: ['A', 'B', 'tie'],
+                            description: 'The more on-trend look.',
+                        },
+                        confidence: {
+                            type: Type.INTEGER,
+                            description: 'Confidence in the verdict from 0 to 100.',
+                        },
+                        reasoning: {
+                            type: Type.STRING,
+                            description: 'Why the winning look is more on-trend.',
+                        },
+                        differentiators: {
+                            type: Type.ARRAY,
+                            description: 'Key points that separated the two looks.',
+                            items: { type: Type.STRING },
+                        },
+                    },
+                    required: ['winner', 'confidence', 'reasoning', 'differentiators'],
+                },
+            },
+        }, ANALYSIS_TIMEOUT_MS);
+
+        try {
+            const verdict = JSON.parse(response.text.trim()) as PairwiseVerdict;
+            if (!['A', 'B', 'tie'].includes(verdict.winner) || typeof verdict.reasoning !== 'string') {
+                throw new Error('Missing winner or reasoning.');
+            }
+            return { ...verdict, differentiators: verdict.differentiators ?? [] };
+        } catch (e) {
+            console.error("Failed to parse JSON response:", response.text);
+            throw new Error("Failed to judge the looks. The API returned an invalid format.");
+        }
+    }, options);
+};
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+    imageModel: IMAGE_MODEL,
+    analysisModel: ANALYSIS_MODEL,
+    composeImage,
+    analyzeTrend,
+    cleanupGarment,
+    tagGarment,
+    judgePair,
+};
@@ -0,0 +1,29 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { AiProvider, ProviderId } from "./types";
+
+export type { AiProvider, ComposeOptions, ProviderId, RequestOptions, RetryCallback } from "./types";
+
+const providers: Record<ProviderId, AiProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const resolveProviderId = (value: string | undefined): ProviderId => {
+    if (value && value in providers) {
+        return value as ProviderId;
+    }
+    if (value) {
+        console.warn(`Unknown AI_PROVIDER "${value}", falling back to "gemini".`);
+    }
+    return 'gemini';
+};
+
+let activeProvider: AiProvider = providers[resolveProviderId(process.env.AI_PROVIDER)];
+
+export const getProvider = (): AiProvider => activeProvider;
+
+// Allows tests and demos to swap the backend at runtime
+export const setProvider = (id: ProviderId) => {
+    activeProvider = providers[id];
+};
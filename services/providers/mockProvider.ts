@@ -0,0 +1,182 @@
+import { ClothingCategory, SEASONS } from "../../data/clothingItems";
+import { SceneSettings } from "../../data/scenePresets";
+import { Garment, GarmentTagSuggestion, ModelSubject, PairwiseVerdict, TrendAnalysisResult } from "../../types";
+import { sleep } from "../../utils/abort";
+import { createImagePayload, ImagePayload } from "../../utils/imagePayload";
+import { getActiveTemplate } from "../promptTemplates";
+import { AiProvider, ComposeOptions, RequestOptions } from "./types";
+
+const DEFAULT_MOCK_LATENCY_MS = 800;
+
+// Simulated network latency so loading states stay visible while developing the UI.
+// 0 is a valid setting (e.g. for tests); only a missing or malformed value falls back to the default.
+const parseLatency = (value: string | undefined): number => {
+    const latency = value?.trim() ? Number(value) : NaN;
+    return Number.isFinite(latency) && latency >= 0 ? latency : DEFAULT_MOCK_LATENCY_MS;
+};
+
+const MOCK_LATENCY_MS = parseLatency(process.env.MOCK_LATENCY_MS);
+
+const CANNED_ANALYSES = [
+    'Clean lines and a restrained palette tap straight into the quiet luxury movement. The fit reads modern and polished; a tonal accessory would push it further.',
+    'The relaxed silhouette nods to current streetwear influences, and the casual styling feels authentic. Consider a bolder accent colour to make it stand out on social feeds.',
+    'A timeless combination that sells reliably but lacks a distinctive trend hook. Layering or an oversized proportion would lift its marketability this season.',
+    'Playful proportions and nostalgic details echo the ongoing Y2K revival. Pairing it with chunkier footwear would strengthen the look for a younger audience.',
+];
+
+const CANNED_TAGS = ['Quiet luxury', 'Y2K revival', 'Streetwear', 'Minimalism', 'Gorpcore', 'Preppy revival', 'Utility wear'];
+
+const CANNED_DEMOGRAPHICS = ['Gen Z trendsetters', 'Young urban professionals', 'Millennial parents', 'Luxury shoppers', 'College students'];
+
+const CANNED_SUGGESTIONS = [
+    'Add a statement accessory to create a focal point.',
+    'Try a tonal colour palette for a more elevated feel.',
+    'Swap in chunkier footwear to modernise the proportions.',
+    'Roll the sleeves or cuffs for a more relaxed styling.',
+    'Layer a lightweight piece to extend the look into transitional seasons.',
+];
+
+// Picks `count` consecutive entries starting at a seed-derived offset
+const pick = <T>(values: T[], seed: number, count: number): T[] =>
+    Array.from({ length: count }, (_, i) => values[(seed + i) % values.length]);
+
+// Small, stable string hash (djb2) so identical inputs always produce identical outputs
+const hashString = (value: string): number => {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+};
+
+const createPlaceholderImage = (seed: number): ImagePayload => {
+    const hue = seed % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="768" viewBox="0 0 512 768">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hue},45%,82%)"/><stop offset="1" stop-color="hsl(${(hue + 40) % 360},40%,60%)"/>`
+        + `</linearGradient></defs>`
+        + `<rect width="512" height="768" fill="url(#g)"/>`
+        + `<circle cx="256" cy="170" r="70" fill="hsl(${hue},25%,35%)"/>`
+        + `<path d="M156 300 Q256 250 356 300 L380 620 L132 620 Z" fill="hsl(${(hue + 180) % 360},35%,40%)"/>`
+        + `<text x="256" y="710" font-family="sans-serif" font-size="28" text-anchor="middle" fill="#1f2937">Mock look #${seed % 1000}</text>`
+        + `</svg>`;
+    return createImagePayload('image/svg+xml', btoa(svg));
+};
+
+const composeImage = async (
+    model: ModelSubject,
+    garments: Garment[],
+    scene: SceneSettings,
+    { signal, seed, onPromptRendered }: ComposeOptions = {}
+): Promise<ImagePayload> => {
+    // No prompt is sent, but looks still record the template a real request would have used
+    onPromptRendered?.(getActiveTemplate('compose'));
+    await sleep(MOCK_LATENCY_MS, signal);
+    // Another scene or seed gives another placeholder, as it would give another photo
+    return createPlaceholderImage(hashString(model.photos[0].data + garments.map(garment => garment.imageData.data).join('') + JSON.stringify(scene) + (seed ?? '')));
+};
+
+const analyzeTrend = async (
+    generatedImage: ImagePayload,
+    _garments: Garment[],
+    { signal, onPromptRendered }: RequestOptions = {}
+): Promise<TrendAnalysisResult> => {
+    onPromptRendered?.(getActiveTemplate('analysis'));
+    await sleep(MOCK_LATENCY_MS, signal);
+    const seed = hashString(generatedImage.data);
+    const score = 40 + (seed % 56); // 40-95 keeps every gauge colour reachable
+    // Spread the sub-scores around the overall score, clamped to 0-100
+    const around = (offset: number) => Math.max(0, Math.min(100, score + ((seed >>> offset) % 31) - 15));
+    return {
+        score,
+        analysis: CANNED_ANALYSES[seed % CANNED_ANALYSES.length],
+        dimensions: {
+            colorPalette: around(2),
+            silhouette: around(5),
+            fabricTexture: around(8),
+            styling: around(11),
+            seasonality: around(14),
+        },
+        trendTags: pick(CANNED_TAGS, seed, 2),
+        targetDemographics: pick(CANNED_DEMOGRAPHICS, seed >>> 3, 2),
+        suggestions: pick(CANNED_SUGGESTIONS, seed >>> 6, 3),
+    };
+};
+
+// Returns the photo unchanged; the local crop in the add-item flow still trims plain margins
+const cleanupGarment = async (
+    image: ImagePayload,
+    { signal }: RequestOptions = {}
+): Promise<ImagePayload> => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return image;
+};
+
+const CANNED_GARMENTS: { name: string; category: ClothingCategory; sleeveLength?: string; length: string }[] = [
+    { name: 'Relaxed Overshirt', category: 'Outerwear', sleeveLength: 'long', length: 'hip' },
+    { name: 'Ribbed Tank Top', category: 'Tops', sleeveLength: 'sleeveless', length: 'cropped' },
+    { name: 'Wide-Leg Trousers', category: 'Bottoms', length: 'full' },
+    { name: 'Slip Midi Dress', category: 'Dresses', sleeveLength: 'sleeveless', length: 'midi' },
+    { name: 'Leather Loafers', category: 'Shoes', length: 'ankle' },
+];
+const CANNED_COLORS = ['black', 'white', 'navy', 'beige', 'olive', 'burgundy', 'gray'];
+const CANNED_PATTERNS = ['solid', 'striped', 'checked', 'floral'];
+const CANNED_MATERIALS = ['cotton', 'linen', 'wool', 'denim', 'satin'];
+
+const tagGarment = async (
+    image: ImagePayload,
+    categories: string[],
+    { signal }: RequestOptions = {}
+): Promise<GarmentTagSuggestion> => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const seed = hashString(image.data);
+    // Only suggest garments whose category the catalog still has
+    const matching = CANNED_GARMENTS.filter(garment => categories.includes(garment.category));
+    const pool = matching.length ? matching : CANNED_GARMENTS;
+    const { name, category, sleeveLength, length } = pool[seed % pool.length];
+    return {
+        name,
+        category: categories.includes(category) ? category : categories[0] ?? category,
+        attributes: {
+            colors: pick(CANNED_COLORS, seed >>> 2, 2),
+            pattern: CANNED_PATTERNS[(seed >>> 4) % CANNED_PATTERNS.length],
+            material: CANNED_MATERIALS[(seed >>> 6) % CANNED_MATERIALS.length],
+            sleeveLength,
+            length,
+            seasons: pick([...SEASONS], seed >>> 8, 2),
+        },
+    };
+};
+
+const judgePair = async (
+    imageA: ImagePayload,
+    imageB: ImagePayload,
+    { signal }: RequestOptions = {}
+): Promise<PairwiseVerdict> => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    // Judge the same way the mock analysis scores, so verdicts agree with the gauges
+    const [{ score: scoreA }, { score: scoreB }] = await Promise.all([
+        analyzeTrend(imageA, [], { signal }),
+        analyzeTrend(imageB, [], { signal }),
+    ]);
+    const winner = scoreA === scoreB ? 'tie' : scoreA > scoreB ? 'A' : 'B';
+    return {
+        winner,
+        confidence: Math.min(95, 50 + Math.abs(scoreA - scoreB)),
+        reasoning: winner === 'tie'
+            ? 'Both looks are equally on-trend; the choice comes down to the target audience.'
+            : `Look ${winner} leans harder into current trends and reads as more commercially promising.`,
+        differentiators: pick(CANNED_SUGGESTIONS, hashString(imageA.data + imageB.data), 2),
+    };
+};
+
+export const mockProvider: AiProvider = {
+    id: 'mock',
+    imageModel: 'mock-image',
+    analysisModel: 'mock-analysis',
+    composeImage,
+    analyzeTrend,
+    cleanupGarment,
+    tagGarment,
+    judgePair,
+};
@@ -0,0 +1,40 @@
+import { Garment, GarmentTagSuggestion, ModelSubject, PairwiseVerdict, TrendAnalysisResult } from "../../types";
+import { ImagePayload } from "../../utils/imagePayload";
+import { SceneSettings } from "../../data/scenePresets";
+import { PromptTemplate } from "../../data/promptTemplates";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type RetryCallback = (attempt: number) => void;
+
+export interface RequestOptions {
+    onRetry?: RetryCallback;
+    // Aborting rejects the request with CancelledError, including while waiting to retry
+    signal?: AbortSignal;
+    // Skips cached responses and asks the API again; the new response replaces the cached one
+    forceRefresh?: boolean;
+    // Called with the prompt template as soon as it has been rendered, so the result can record
+    // the version that actually produced it even if the template is edited while the request runs
+    onPromptRendered?: (template: PromptTemplate) => void;
+}
+
+export interface ComposeOptions extends RequestOptions {
+    // Fixes the sampling seed, so variations of one look differ and each can be reproduced
+    seed?: number;
+}
+
+// Contract every AI backend implements, so the UI never talks to a vendor SDK directly
+export interface AiProvider {
+    id: ProviderId;
+    imageModel: string;
+    analysisModel: string;
+    // Garments are ordered from the innermost layer outwards
+    composeImage: (model: ModelSubject, garments: Garment[], scene: SceneSettings, options?: ComposeOptions) => Promise<ImagePayload>;
+    // `garments` describes what the image shows, so the whole outfit gets scored
+    analyzeTrend: (image: ImagePayload, garments: Garment[], options?: RequestOptions) => Promise<TrendAnalysisResult>;
+    // Returns a cropped product shot of the garment on a plain white background
+    cleanupGarment: (image: ImagePayload, options?: RequestOptions) => Promise<ImagePayload>;
+    // Suggests a name, category and attributes for a garment photo
+    tagGarment: (image: ImagePayload, categories: string[], options?: RequestOptions) => Promise<GarmentTagSuggestion>;
+    judgePair: (imageA: ImagePayload, imageB: ImagePayload, options?: RequestOptions) => Promise<PairwiseVerdict>;
+}
@@ -0,0 +1,66 @@
+import { DEFAULT_MODEL_LIMITS, ModelLimits } from "../data/modelQuotas";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { QuotaExceededError } from "../utils/errors";
+import { getTodayCalls, recordCall } from "./usageLedger";
+
+// A token bucket per model: it holds up to `rpm` requests and refills continuously over a minute.
+// Callers queue in order, so a burst is spread out instead of tripping the API's own limit.
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    queue: Promise<void>;
+}
+
+let limits: Record<string, ModelLimits> = { ...DEFAULT_MODEL_LIMITS };
+const buckets = new Map<string, Bucket>();
+
+export const getModelLimits = (): Record<string, ModelLimits> => limits;
+
+// Overrides are merged over the defaults; models without limits are never throttled
+export const setModelLimits = (overrides: Record<string, ModelLimits>) => {
+    limits = { ...DEFAULT_MODEL_LIMITS, ...overrides };
+};
+
+const getBucket = (model: string, rpm: number): Bucket => {
+    let bucket = buckets.get(model);
+    if (!bucket) {
+        bucket = { tokens: rpm, updatedAt: Date.now(), queue: Promise.resolve() };
+        buckets.set(model, bucket);
+    }
+    return bucket;
+};
+
+const waitForToken = async (model: string, signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+        throwIfAborted(signal);
+        const modelLimits = limits[model];
+        if (!modelLimits) break;
+        const { rpm, rpd } = modelLimits;
+
+        // Waiting for tomorrow is never useful, so an exhausted daily quota fails straight away
+        if (getTodayCalls(model) >= rpd) {
+            throw new QuotaExceededError(`Today's quota of ${rpd} requests for ${model} has been used up. Try again tomorrow or raise the limit in the usage panel.`);
+        }
+
+        const bucket = getBucket(model, rpm);
+        const now = Date.now();
+        bucket.tokens = Math.min(rpm, bucket.tokens + (now - bucket.updatedAt) * rpm / 60_000);
+        bucket.updatedAt = now;
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            break;
+        }
+        await sleep(Math.ceil((1 - bucket.tokens) * 60_000 / rpm), signal);
+    }
+    recordCall(model);
+};
+
+// Resolves once a request to `model` may be sent, and counts it in the usage ledger.
+// Rejects with RateLimitError when the daily quota is used up, or CancelledError if `signal` aborts.
+export const acquireRequestSlot = (model: string, signal?: AbortSignal): Promise<void> => {
+    const bucket = getBucket(model, limits[model]?.rpm ?? 1);
+    const turn = bucket.queue.then(() => waitForToken(model, signal));
+    // A cancelled or failed caller must not hold up the ones queued behind it
+    bucket.queue = turn.catch(() => undefined);
+    return turn;
+};
@@ -0,0 +1,126 @@
+import { ClothingItem } from '../data/clothingItems';
+import { LookRecord } from '../types';
+import { toDataUrl } from '../utils/imagePayload';
+import { describeScene } from './promptBuilder';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const scoreColor = (score: number) =>
+  score > 80 ? '#16a34a' : score > 60 ? '#ca8a04' : score > 40 ? '#ea580c' : '#dc2626';
+
+const renderList = (title: string, values: string[]) =>
+  values.length > 0
+    ? `<p class="meta"><strong>${title}:</strong> ${values.map(escapeHtml).join(', ')}</p>`
+    : '';
+
+const renderLook = (look: LookRecord, items: ClothingItem[]): string => {
+  // Items may have been removed from the catalog since; fall back to the recorded label
+  const garments = look.clothingItemIds
+    .map(id => items.find(item => item.id === id))
+    .filter((item): item is ClothingItem => item !== undefined);
+  const garmentRows = garments.length > 0
+    ? garments.map(g => `<li>${escapeHtml(g.name)} <span class="category">${escapeHtml(g.category)}</span></li>`).join('')
+    : `<li>${escapeHtml(look.clothingItemName)}</li>`;
+  const result = look.trendResult;
+
+  return `
+    <article class="look">
+      <img src="${toDataUrl(look.generatedImage)}" alt="${escapeHtml(look.clothingItemName)}" />
+      <div class="details">
+        <h2>${escapeHtml(look.clothingItemName)}</h2>
+        <ul class="garments">${garmentRows}</ul>
+        ${result ? `
+          <p class="score" style="color:${scoreColor(result.score)}">${result.score}<span>/100 trend score</span></p>
+          <p>${escapeHtml(result.analysis)}</p>
+          ${renderList('Trends', result.trendTags)}
+          ${renderList('Appeals to', result.targetDemographics)}
+          ${renderList('Suggestions', result.suggestions)}
+        ` : '<p class="meta">Not analyzed.</p>'}
+        <p class="meta">
+          Generated ${escapeHtml(new Date(look.createdAt).toLocaleString())}
+          ${look.modelProfileName ? `&middot; Model: ${escapeHtml(look.modelProfileName)}` : ''}
+          ${look.scene ? `&middot; Scene: ${escapeHtml(describeScene(look.scene))}` : ''}
+          &middot; Image model: ${escapeHtml(look.imageModel)}
+          ${look.analysisModel ? `&middot; Analysis model: ${escapeHtml(look.analysisModel)}` : ''}
+          ${look.composeTemplateVersion !== null ? `&middot; Prompt templates: generation v${look.composeTemplateVersion}${look.analysisTemplateVersion !== null ? `, analysis v${look.analysisTemplateVersion}` : ''}` : ''}
+        </p>
+      </div>
+    </article>`;
+};
+
+// Builds a self-contained lookbook; images are inlined as data URLs so the file works offline
+export const buildLookbookHtml = (looks: LookRecord[], items: ClothingItem[], title = 'TrendLens AI Lookbook'): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+    header { border-bottom: 2px solid #6366f1; margin-bottom: 1.5rem; }
+    header h1 { color: #4f46e5; margin: 0; }
+    header p { color: #6b7280; }
+    .look { display: flex; gap: 1.5rem; padding: 1rem 0; border-bottom: 1px solid #e5e7eb; page-break-inside: avoid; }
+    .look img { width: 260px; max-height: 380px; object-fit: contain; border-radius: 8px; background: #f3f4f6; }
+    .details h2 { margin: 0 0 0.5rem; }
+    .garments { margin: 0 0 0.5rem; padding-left: 1.2rem; }
+    .category { color: #6b7280; font-size: 0.85em; }
+    .score { font-size: 2rem; font-weight: 700; margin: 0.25rem 0; }
+    .score span { font-size: 0.9rem; font-weight: 400; color: #6b7280; margin-left: 0.25rem; }
+    .meta { color: #6b7280; font-size: 0.85rem; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${looks.length} look${looks.length === 1 ? '' : 's'} &middot; exported ${escapeHtml(new Date().toLocaleString())}</p>
+  </header>
+  ${looks.map(look => renderLook(look, items)).join('\n')}
+</body>
+</html>`;
+
+export const downloadLookbookHtml = (looks: LookRecord[], items: ClothingItem[]) => {
+  const blob = new Blob([buildLookbookHtml(looks, items)], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'trendlens-ai-lookbook.html';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Long enough for the user to finish in the print dialog
+const PRINT_CLEANUP_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Renders the lookbook in a hidden frame and opens the print dialog, where it can be saved as a PDF
+export const printLookbookPdf = (looks: LookRecord[], items: ClothingItem[]) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    // Some browsers return from print() while the dialog is still open, so wait for it to close.
+    // The timeout only cleans up where afterprint never fires.
+    const removeFrame = () => {
+      clearTimeout(fallback);
+      frame.remove();
+    };
+    const fallback = setTimeout(removeFrame, PRINT_CLEANUP_TIMEOUT_MS);
+    frameWindow.addEventListener('afterprint', removeFrame, { once: true });
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = buildLookbookHtml(looks, items);
+  document.body.appendChild(frame);
+};
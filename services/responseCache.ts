@@ -0,0 +1,158 @@
+import { CancelledError } from "../utils/errors";
+import { throwIfAborted } from "../utils/abort";
+import { ImagePayload } from "../utils/imagePayload";
+import { RequestOptions } from "./providers/types";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+// Everything that determines a response; identical inputs are served from the cache
+export interface CacheKeyInput {
+    kind: string; // e.g. 'compose', 'analysis'
+    model: string;
+    prompt: string;
+    images: ImagePayload[];
+    seed?: number; // Only set when the caller fixed one
+}
+
+interface CacheEntry {
+    key: string;
+    kind: string;
+    value: unknown;
+    size: number; // Approximate bytes, used for the size limit
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+// Least recently used entries are evicted once either limit is exceeded
+const MAX_ENTRIES = 200;
+const MAX_BYTES = 150 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const computeCacheKey = async ({ kind, model, prompt, images, seed }: CacheKeyInput): Promise<string> => {
+    // Unseeded requests keep the keys they had before seeds existed
+    const material = JSON.stringify([kind, model, prompt, ...images.map(image => [image.mimeType, image.data]), ...(seed === undefined ? [] : [seed])]);
+    return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material)));
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+    const entry = await withStore(STORES.responseCache, 'readonly', store =>
+        requestToPromise(store.get(key) as IDBRequest<CacheEntry | undefined>)
+    );
+    if (entry) {
+        withStore(STORES.responseCache, 'readwrite', store => requestToPromise(store.put({ ...entry, lastUsedAt: Date.now() })))
+            .catch(err => console.warn('Failed to refresh a cache entry.', err));
+    }
+    return entry;
+};
+
+// Walks the entries from most to least recently used and drops everything past the limits
+const evictEntries = (store: IDBObjectStore): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        let count = 0;
+        let bytes = 0;
+        const request = store.index('lastUsedAt').openCursor(null, 'prev');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            const entry = cursor.value as CacheEntry;
+            count += 1;
+            bytes += entry.size;
+            if (count > MAX_ENTRIES || bytes > MAX_BYTES) {
+                cursor.delete();
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const writeEntry = async (key: string, kind: string, value: unknown): Promise<void> => {
+    const now = Date.now();
+    const entry: CacheEntry = { key, kind, value, size: JSON.stringify(value).length, createdAt: now, lastUsedAt: now };
+    await withStore(STORES.responseCache, 'readwrite', async store => {
+        await requestToPromise(store.put(entry));
+        await evictEntries(store);
+    });
+};
+
+// A request shared by every caller that asked for the same key while it was running.
+// It is only aborted once all of them have cancelled.
+interface Flight {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const inFlight = new Map<string, Flight>();
+
+const joinFlight = <T>(flight: Flight, signal?: AbortSignal): Promise<T> => {
+    flight.subscribers += 1;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            flight.subscribers -= 1;
+            if (flight.subscribers === 0) flight.controller.abort();
+            reject(new CancelledError());
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        (flight.promise as Promise<T>)
+            .then(resolve, reject)
+            .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+};
+
+// Serves `input` from the persistent cache, joins an identical request already in flight,
+// or calls `fetch` and caches its result. `isValid` guards against stale or corrupt entries.
+// Only the caller that started a shared request receives its retry notifications.
+export const cachedRequest = async <T>(
+    input: CacheKeyInput,
+    options: RequestOptions,
+    isValid: (value: unknown) => value is T,
+    fetch: (options: RequestOptions) => Promise<T>
+): Promise<T> => {
+    const { signal, onRetry, forceRefresh } = options;
+    throwIfAborted(signal);
+    const key = await computeCacheKey(input);
+
+    if (!forceRefresh) {
+        const running = inFlight.get(key);
+        if (running && !running.controller.signal.aborted) {
+            return joinFlight<T>(running, signal);
+        }
+        try {
+            const entry = await readEntry(key);
+            if (entry && isValid(entry.value)) {
+                throwIfAborted(signal);
+                return entry.value;
+            }
+        } catch (err) {
+            // The cache is an optimisation; without storage every request simply goes to the API
+            if (err instanceof CancelledError) throw err;
+            console.warn('Failed to read the response cache.', err);
+        }
+    }
+
+    const controller = new AbortController();
+    const flight: Flight = {
+        controller,
+        subscribers: 0,
+        promise: fetch({ onRetry, signal: controller.signal }).then(value => {
+            writeEntry(key, input.kind, value).catch(err => console.warn('Failed to write the response cache.', err));
+            return value;
+        }),
+    };
+    inFlight.set(key, flight);
+    flight.promise
+        .catch(() => undefined)
+        .finally(() => {
+            if (inFlight.get(key) === flight) inFlight.delete(key);
+        });
+    return joinFlight<T>(flight, signal);
+};
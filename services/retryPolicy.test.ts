@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    CancelledError,
+    EmptyResponseError,
+    InvalidInputError,
+    QuotaExceededError,
+    RateLimitError,
+    SafetyBlockedError,
+    ServerError,
+    TimeoutError,
+} from "../utils/errors";
+import {
+    classifyError,
+    DEFAULT_RETRY_POLICY,
+    getRetryDelay,
+    getRetryPolicy,
+    retryWithPolicy,
+    RetryDependencies,
+    RetryPolicy,
+    setRetryPolicy,
+    withTimeout,
+} from "./retryPolicy";
+
+// Shaped like the errors @google/genai rejects with: a status field and the JSON body in the message
+const apiError = (status: number, rpcStatus: string, retryDelay?: string) => Object.assign(
+    new Error(`got status: ${status}. ${JSON.stringify({
+        error: { code: status, status: rpcStatus, details: retryDelay ? [{ retryDelay }] : [] },
+    })}`),
+    { status }
+);
+
+// Stands in for the client's generateContent: replays `outcomes` in order, one per call
+const fakeGenerateContent = (outcomes: (Error | string)[]) => {
+    const remaining = [...outcomes];
+    return vi.fn(async () => {
+        const outcome = remaining.shift();
+        if (outcome === undefined) throw new Error('No more fake responses');
+        if (outcome instanceof Error) throw outcome;
+        return outcome;
+    });
+};
+
+const fakeDependencies = (): RetryDependencies & { sleep: ReturnType<typeof vi.fn> } => ({
+    sleep: vi.fn(async () => undefined),
+    random: () => 0.5,
+});
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 8000, maxHintDelayMs: 60_000 };
+
+describe('classifyError', () => {
+    it('reads the rpc status and retry hint from the error body', () => {
+        expect(classifyError(apiError(429, 'RESOURCE_EXHAUSTED', '27s'))).toMatchObject({
+            kind: 'rateLimit',
+            retryable: true,
+            status: 429,
+            retryAfterMs: 27_000,
+        });
+    });
+
+    it('falls back to the HTTP status', () => {
+        expect(classifyError(Object.assign(new Error('Bad gateway'), { status: 502 }))).toMatchObject({ kind: 'server', retryable: true });
+        expect(classifyError(Object.assign(new Error('Bad request'), { status: 400 }))).toMatchObject({ kind: 'invalidInput', retryable: false });
+        expect(classifyError(Object.assign(new Error('Teapot'), { status: 599 }))).toMatchObject({ kind: 'server' });
+    });
+
+    it('treats a failed fetch as a network error', () => {
+        expect(classifyError(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network', retryable: true });
+    });
+
+    it('keeps errors raised by the app itself', () => {
+        expect(classifyError(new TimeoutError())).toMatchObject({ kind: 'timeout', retryable: true });
+        expect(classifyError(new EmptyResponseError())).toMatchObject({ kind: 'emptyResponse', retryable: true });
+        expect(classifyError(new SafetyBlockedError())).toMatchObject({ kind: 'safety', retryable: false });
+        expect(classifyError(new QuotaExceededError('Used up'))).toMatchObject({ kind: 'unknown', retryable: false });
+    });
+
+    it('does not retry unknown errors', () => {
+        expect(classifyError(new Error('Something odd'))).toMatchObject({ kind: 'unknown', retryable: false });
+    });
+});
+
+describe('getRetryDelay', () => {
+    const rateLimit = classifyError(apiError(429, 'RESOURCE_EXHAUSTED'));
+
+    it('backs off exponentially with jitter', () => {
+        expect(getRetryDelay(POLICY, 1, rateLimit, () => 0)).toBe(500);
+        expect(getRetryDelay(POLICY, 1, rateLimit, () => 1)).toBe(1000);
+        expect(getRetryDelay(POLICY, 2, rateLimit, () => 1)).toBe(2000);
+    });
+
+    it('caps the backoff at maxDelayMs', () => {
+        const policy = { ...POLICY, maxAttempts: 10 };
+        expect(getRetryDelay(policy, 8, rateLimit, () => 1)).toBe(8000);
+    });
+
+    it('waits at least as long as the server asked', () => {
+        const hinted = classifyError(apiError(429, 'RESOURCE_EXHAUSTED', '5s'));
+        expect(getRetryDelay(POLICY, 1, hinted, () => 1)).toBe(5000);
+    });
+
+    it('gives up when the hint is too long, the error is permanent or the attempts are used up', () => {
+        expect(getRetryDelay(POLICY, 1, classifyError(apiError(429, 'RESOURCE_EXHAUSTED', '120s')))).toBeNull();
+        expect(getRetryDelay(POLICY, 1, classifyError(apiError(400, 'INVALID_ARGUMENT')))).toBeNull();
+        expect(getRetryDelay(POLICY, POLICY.maxAttempts, rateLimit)).toBeNull();
+    });
+});
+
+describe('retryWithPolicy', () => {
+    it('retries transient failures until a call succeeds', async () => {
+        const generateContent = fakeGenerateContent([apiError(503, 'UNAVAILABLE'), apiError(429, 'RESOURCE_EXHAUSTED'), 'ok']);
+        const dependencies = fakeDependencies();
+        const onRetry = vi.fn();
+
+        await expect(retryWithPolicy(generateContent, { onRetry }, POLICY, dependencies)).resolves.toBe('ok');
+        expect(generateContent).toHaveBeenCalledTimes(3);
+        expect(onRetry.mock.calls).toEqual([[1], [2]]);
+        expect(dependencies.sleep.mock.calls.map(([ms]) => ms)).toEqual([750, 1500]);
+    });
+
+    it('reports the last failure as a user-facing error once the attempts run out', async () => {
+        const generateContent = fakeGenerateContent([apiError(500, 'INTERNAL'), apiError(500, 'INTERNAL'), apiError(500, 'INTERNAL')]);
+
+        await expect(retryWithPolicy(generateContent, {}, POLICY, fakeDependencies())).rejects.toBeInstanceOf(ServerError);
+        expect(generateContent).toHaveBeenCalledTimes(3);
+    });
+
+    it('honours maxAttempts', async () => {
+        const generateContent = fakeGenerateContent([apiError(429, 'RESOURCE_EXHAUSTED'), 'ok']);
+
+        await expect(retryWithPolicy(generateContent, {}, { ...POLICY, maxAttempts: 1 }, fakeDependencies())).rejects.toBeInstanceOf(RateLimitError);
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry permanent errors', async () => {
+        const generateContent = fakeGenerateContent([apiError(400, 'INVALID_ARGUMENT'), 'ok']);
+        const dependencies = fakeDependencies();
+
+        await expect(retryWithPolicy(generateContent, {}, POLICY, dependencies)).rejects.toBeInstanceOf(InvalidInputError);
+        expect(dependencies.sleep).not.toHaveBeenCalled();
+    });
+
+    it('passes errors raised by the app through unchanged', async () => {
+        const blocked = new SafetyBlockedError();
+        const generateContent = fakeGenerateContent([blocked]);
+
+        await expect(retryWithPolicy(generateContent, {}, POLICY, fakeDependencies())).rejects.toBe(blocked);
+    });
+
+    it('rejects with CancelledError once the signal aborts', async () => {
+        const controller = new AbortController();
+        const generateContent = vi.fn(async () => {
+            controller.abort();
+            throw new Error('The operation was aborted');
+        });
+
+        await expect(retryWithPolicy(generateContent, { signal: controller.signal }, POLICY, fakeDependencies())).rejects.toBeInstanceOf(CancelledError);
+        expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses the default policy when none is given', async () => {
+        const generateContent = fakeGenerateContent(Array.from({ length: DEFAULT_RETRY_POLICY.maxAttempts }, () => apiError(503, 'UNAVAILABLE')));
+
+        await expect(retryWithPolicy(generateContent, {}, undefined, fakeDependencies())).rejects.toBeInstanceOf(ServerError);
+        expect(generateContent).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+    });
+});
+
+describe('setRetryPolicy', () => {
+    afterEach(() => {
+        setRetryPolicy({});
+    });
+
+    it('merges overrides over the defaults', () => {
+        setRetryPolicy({ maxAttempts: 5 });
+        expect(getRetryPolicy()).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+        setRetryPolicy({});
+        expect(getRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+});
+
+describe('withTimeout', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('resolves with the result of work that finishes in time', async () => {
+        await expect(withTimeout(1000, undefined, async () => 'done')).resolves.toBe('done');
+    });
+
+    it('aborts the work and rejects with TimeoutError when the time runs out', async () => {
+        vi.useFakeTimers();
+        let workSignal: AbortSignal | undefined;
+        const result = withTimeout(1000, undefined, signal => {
+            workSignal = signal;
+            return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+        });
+        const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+        expect(workSignal?.aborted).toBe(true);
+    });
+
+    it('forwards cancellation from the caller', async () => {
+        const controller = new AbortController();
+        const result = withTimeout(60_000, controller.signal, signal =>
+            new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new CancelledError())))
+        );
+        controller.abort();
+
+        await expect(result).rejects.toBeInstanceOf(CancelledError);
+    });
+
+    it('does not start work when already cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const work = vi.fn(async () => 'done');
+
+        await expect(withTimeout(1000, controller.signal, work)).rejects.toBeInstanceOf(CancelledError);
+        expect(work).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,222 @@
+import {
+    ApiError,
+    CancelledError,
+    EmptyResponseError,
+    InvalidInputError,
+    NetworkError,
+    RateLimitError,
+    SafetyBlockedError,
+    ServerError,
+    TimeoutError,
+} from "../utils/errors";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { RequestOptions } from "./providers/types";
+
+export type ErrorKind =
+    | 'rateLimit'
+    | 'server'
+    | 'timeout'
+    | 'network'
+    | 'emptyResponse'
+    | 'invalidInput'
+    | 'safety'
+    | 'unknown';
+
+export interface ClassifiedError {
+    kind: ErrorKind;
+    retryable: boolean;
+    status?: number; // HTTP status, when the error carried one
+    retryAfterMs?: number; // Delay the server asked for before trying again
+    message: string;
+}
+
+export interface RetryPolicy {
+    maxAttempts: number; // Including the first attempt
+    baseDelayMs: number; // Backoff before the first retry; doubles with each further retry
+    maxDelayMs: number;
+    // A server hint longer than this is not worth waiting for, so the error is reported instead
+    maxHintDelayMs: number;
+}
+
+// Seams for tests: a fake sleep and a fixed random source make retries deterministic
+export interface RetryDependencies {
+    sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+    random: () => number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    maxHintDelayMs: 60_000,
+};
+
+const DEFAULT_DEPENDENCIES: RetryDependencies = { sleep, random: Math.random };
+
+let activePolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+// The policy providers retry with; the UI reads it to show how many attempts are left
+export const getRetryPolicy = (): RetryPolicy => activePolicy;
+
+// Overrides are merged over the defaults
+export const setRetryPolicy = (overrides: Partial<RetryPolicy>) => {
+    activePolicy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+};
+
+const RETRYABLE_KINDS: ErrorKind[] = ['rateLimit', 'server', 'timeout', 'network', 'emptyResponse'];
+
+// google.rpc status names returned in the error body
+const RPC_STATUS_KINDS: Record<string, ErrorKind> = {
+    RESOURCE_EXHAUSTED: 'rateLimit',
+    UNAVAILABLE: 'server',
+    INTERNAL: 'server',
+    DEADLINE_EXCEEDED: 'timeout',
+    INVALID_ARGUMENT: 'invalidInput',
+};
+
+const HTTP_STATUS_KINDS: Record<number, ErrorKind> = {
+    400: 'invalidInput',
+    408: 'timeout',
+    429: 'rateLimit',
+    500: 'server',
+    502: 'server',
+    503: 'server',
+    504: 'timeout',
+};
+
+interface RpcErrorBody {
+    code?: number;
+    status?: string;
+    details?: { retryDelay?: string }[];
+}
+
+// The SDK puts the JSON error body in the message, after a short status prefix
+const parseErrorBody = (message: string): RpcErrorBody | null => {
+    const start = message.indexOf('{');
+    if (start === -1) return null;
+    try {
+        const parsed = JSON.parse(message.slice(start));
+        return typeof parsed?.error === 'object' && parsed.error !== null ? parsed.error : null;
+    } catch {
+        return null;
+    }
+};
+
+// RetryInfo.retryDelay is a protobuf Duration string such as "27s" or "1.5s"
+const parseRetryDelay = (body: RpcErrorBody | null): number | undefined => {
+    const delay = body?.details?.find(detail => typeof detail.retryDelay === 'string')?.retryDelay;
+    const seconds = delay ? parseFloat(delay) : NaN;
+    return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+};
+
+const classified = (kind: ErrorKind, message: string, extra: Partial<ClassifiedError> = {}): ClassifiedError => ({
+    kind,
+    retryable: RETRYABLE_KINDS.includes(kind),
+    message,
+    ...extra,
+});
+
+export const classifyError = (error: unknown): ClassifiedError => {
+    // Errors this app raises itself already say what went wrong
+    if (error instanceof TimeoutError) return classified('timeout', error.message);
+    if (error instanceof EmptyResponseError) return classified('emptyResponse', error.message);
+    if (error instanceof NetworkError) return classified('network', error.message);
+    if (error instanceof SafetyBlockedError) return classified('safety', error.message);
+    if (error instanceof ApiError) return { kind: 'unknown', retryable: false, message: error.message };
+
+    // fetch rejects with a TypeError when the request cannot be sent at all
+    if (error instanceof TypeError) return classified('network', error.message);
+
+    const message = error instanceof Error ? error.message : String(error);
+    const rawStatus = (error as { status?: unknown } | null)?.status;
+    const body = parseErrorBody(message);
+    const status = typeof rawStatus === 'number' ? rawStatus : body?.code;
+    const kind = (body?.status && RPC_STATUS_KINDS[body.status])
+        || (status !== undefined && HTTP_STATUS_KINDS[status])
+        || (status !== undefined && status >= 500 ? 'server' : 'unknown');
+    return classified(kind, message, { status, retryAfterMs: parseRetryDelay(body) });
+};
+
+// The error shown to the user once retrying is over
+export const toApiError = (error: ClassifiedError): ApiError => {
+    switch (error.kind) {
+        case 'rateLimit': return new RateLimitError();
+        case 'server': return new ServerError();
+        case 'timeout': return new TimeoutError();
+        case 'network': return new NetworkError();
+        case 'emptyResponse': return new EmptyResponseError();
+        case 'safety': return new SafetyBlockedError();
+        case 'invalidInput': return new InvalidInputError('There was an issue with one of the uploaded images. Please try using a different, clear image in a common format (PNG, JPG, WEBP).');
+        default: return new ApiError(error.message);
+    }
+};
+
+// Delay before retry number `attempt` (1-based), or null when the error should not be retried.
+// Server hints are honoured as a minimum; otherwise exponential backoff with jitter spreads retries out.
+export const getRetryDelay = (
+    policy: RetryPolicy,
+    attempt: number,
+    error: ClassifiedError,
+    random: () => number = Math.random
+): number | null => {
+    if (!error.retryable || attempt >= policy.maxAttempts) return null;
+    if (error.retryAfterMs !== undefined && error.retryAfterMs > policy.maxHintDelayMs) return null;
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    const jittered = backoff / 2 + random() * backoff / 2;
+    return Math.round(Math.max(jittered, error.retryAfterMs ?? 0));
+};
+
+// Runs `work` with a time limit. The signal it receives aborts on timeout or when `signal` aborts.
+export const withTimeout = async <T>(
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    work: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+    throwIfAborted(signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    try {
+        return await work(controller.signal);
+    } catch (err) {
+        if (timedOut) throw new TimeoutError();
+        throw err;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+// Calls `call` until it succeeds, the error is not retryable, or the attempts run out.
+// Rejects with an ApiError subclass describing the last failure, or CancelledError if `signal` aborts.
+export const retryWithPolicy = async <T>(
+    call: () => Promise<T>,
+    { onRetry, signal }: RequestOptions = {},
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    dependencies: RetryDependencies = DEFAULT_DEPENDENCIES
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await call();
+        } catch (e) {
+            // The SDK rejects with its own abort error; report every cancellation the same way
+            if (signal?.aborted || e instanceof CancelledError) {
+                throw new CancelledError();
+            }
+            const error = classifyError(e);
+            const delay = getRetryDelay(policy, attempt, error, dependencies.random);
+            if (delay === null) {
+                throw e instanceof ApiError ? e : toApiError(error);
+            }
+            onRetry?.(attempt); // Update UI before waiting
+            console.warn(`Retriable ${error.kind} error. Retrying in ${(delay / 1000).toFixed(1)}s... (Attempt ${attempt}/${policy.maxAttempts - 1})`);
+            await dependencies.sleep(delay, signal);
+        }
+    }
+};
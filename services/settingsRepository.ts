@@ -0,0 +1,18 @@
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+interface SettingRecord<T> {
+    key: string;
+    value: T;
+}
+
+// Returns `fallback` when the setting has never been saved
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+    const record = await withStore(STORES.settings, 'readonly', store =>
+        requestToPromise(store.get(key) as IDBRequest<SettingRecord<T> | undefined>)
+    );
+    return record ? record.value : fallback;
+};
+
+export const saveSetting = async <T>(key: string, value: T): Promise<void> => {
+    await withStore(STORES.settings, 'readwrite', store => requestToPromise(store.put({ key, value })));
+};
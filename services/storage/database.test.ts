@@ -0,0 +1,84 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { clothingItems as seedClothingItems } from "../../data/clothingItems";
+
+const LEGACY_IMAGE = JSON.stringify({ mimeType: 'image/png', data: 'iVBORw0KGgo=' });
+
+// Creates the database as an older release of the app left it
+const createLegacyDatabase = (version: number, fill: (transaction: IDBTransaction) => void): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open('trendlens-ai', version);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore('clothingItems', { keyPath: 'id' });
+            db.createObjectStore('looks', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+            fill(request.transaction as IDBTransaction);
+        };
+        request.onsuccess = () => {
+            request.result.close();
+            resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+describe('database migrations', () => {
+    beforeEach(() => {
+        // A fresh database per test; the module caches its connection, so it is reloaded as well
+        globalThis.indexedDB = new IDBFactory();
+        vi.resetModules();
+    });
+
+    it('applies every pending migration to each look', async () => {
+        await createLegacyDatabase(2, transaction => {
+            transaction.objectStore('looks').put({
+                id: 'look-1',
+                createdAt: 1,
+                modelImage: LEGACY_IMAGE,
+                clothingItemId: 3,
+                clothingItemName: 'Denim Jacket',
+                generatedImage: LEGACY_IMAGE,
+                trendResult: { score: 80, analysis: 'On trend.' },
+                imageModel: 'image-model',
+                analysisModel: 'analysis-model',
+            });
+        });
+
+        const { listLooks } = await import("../historyRepository");
+        const [look, ...rest] = await listLooks();
+
+        expect(rest).toHaveLength(0);
+        expect(look).not.toHaveProperty('clothingItemId');
+        expect(look).toMatchObject({
+            clothingItemIds: [3],
+            modelImage: { mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+            generatedImage: { mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+            trendResult: { score: 80, dimensions: null, trendTags: [], targetDemographics: [], suggestions: [] },
+            modelProfileId: null,
+            modelProfileName: null,
+            scene: null,
+            composeTemplateVersion: null,
+            analysisTemplateVersion: null,
+            seed: null,
+        });
+    });
+
+    it('keeps bundled catalog items readable and gives them their attributes', async () => {
+        await createLegacyDatabase(4, transaction => {
+            const store = transaction.objectStore('clothingItems');
+            // Before version 5, images were stored as JSON strings
+            seedClothingItems.forEach(({ attributes: _attributes, ...item }) =>
+                store.put({ ...item, imageData: JSON.stringify(item.imageData), addedAt: 0 })
+            );
+            store.put({ id: 1_700_000_000_000, name: 'My Scarf', category: 'Accessories', imageData: LEGACY_IMAGE, addedAt: 1_700_000_000_000 });
+        });
+
+        const { listItems } = await import("../catalogRepository");
+        const items = await listItems();
+
+        expect(items).toHaveLength(seedClothingItems.length + 1);
+        seedClothingItems.forEach(seed => {
+            expect(items.find(item => item.id === seed.id)).toMatchObject({ imageData: seed.imageData, attributes: seed.attributes });
+        });
+        expect(items.find(item => item.name === 'My Scarf')?.imageData).toEqual({ mimeType: 'image/png', data: 'iVBORw0KGgo=' });
+    });
+});
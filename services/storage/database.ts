@@ -0,0 +1,281 @@
+import { clothingItems as seedClothingItems, DEFAULT_CATEGORIES } from "../../data/clothingItems";
+import { DEFAULT_PROMPT_TEMPLATES } from "../../data/promptTemplates";
+import { imagePayloadFromJson } from "../../utils/imagePayload";
+
+const DB_NAME = 'trendlens-ai';
+
+export const STORES = {
+    clothingItems: 'clothingItems',
+    looks: 'looks',
+    categories: 'categories',
+    modelProfiles: 'modelProfiles',
+    promptTemplates: 'promptTemplates',
+    settings: 'settings',
+    responseCache: 'responseCache',
+    usage: 'usage',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each migration upgrades the schema from `version - 1` to `version`.
+// Append new entries to the end; never edit one that has already shipped.
+interface Migration {
+    version: number;
+    migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// A record as an older release stored it; migrations check the fields they rely on
+type StoredRecord = Record<string, unknown>;
+
+type RecordTransform = (record: StoredRecord) => StoredRecord | null | undefined;
+
+const isStoredRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null;
+
+// Rewrites queued by the running upgrade, per store in migration order
+const pendingUpdates = new WeakMap<IDBTransaction, Map<string, RecordTransform[]>>();
+
+// Rewrites every record in `store` during an upgrade. `transform` returns the new record,
+// undefined to leave it untouched, or null to delete it; a record it throws on is deleted.
+// Nothing is written until every migration has run (see applyPendingUpdates).
+const updateRecords = (store: IDBObjectStore, transform: RecordTransform) => {
+    let byStore = pendingUpdates.get(store.transaction);
+    if (!byStore) {
+        byStore = new Map();
+        pendingUpdates.set(store.transaction, byStore);
+    }
+    byStore.set(store.name, [...(byStore.get(store.name) ?? []), transform]);
+};
+
+// Walks each store once and passes every record through all of its queued transforms in order.
+// Separate cursors per migration would each read the original record and overwrite each other's updates.
+const applyPendingUpdates = (transaction: IDBTransaction) => {
+    pendingUpdates.get(transaction)?.forEach((transforms, storeName) => {
+        const store = transaction.objectStore(storeName);
+        const request = store.openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            // Every store has an in-line key path, so its records are always objects
+            const value: unknown = cursor.value;
+            let record: StoredRecord | null = isStoredRecord(value) ? value : null;
+            let changed = false;
+            for (const transform of transforms) {
+                if (record === null) break;
+                let updated: StoredRecord | null | undefined;
+                try {
+                    updated = transform(record);
+                } catch (err) {
+                    console.warn(`Dropping unreadable record ${String(cursor.primaryKey)} from "${storeName}".`, err);
+                    updated = null;
+                }
+                if (updated !== undefined) {
+                    record = updated;
+                    changed = true;
+                }
+            }
+            if (record === null) {
+                cursor.delete();
+            } else if (changed) {
+                cursor.update(record);
+            }
+            cursor.continue();
+        };
+    });
+    pendingUpdates.delete(transaction);
+};
+
+const migrations: Migration[] = [
+    {
+        version: 1,
+        migrate: (db, transaction) => {
+            db.createObjectStore(STORES.clothingItems, { keyPath: 'id' });
+            // Seed the catalog with the bundled items on first run
+            const store = transaction.objectStore(STORES.clothingItems);
+            seedClothingItems.forEach(item => store.put({ ...item, addedAt: 0 }));
+        },
+    },
+    {
+        version: 2,
+        migrate: (db) => {
+            const looks = db.createObjectStore(STORES.looks, { keyPath: 'id' });
+            looks.createIndex('createdAt', 'createdAt');
+        },
+    },
+    {
+        // Looks can now be made of several garments (outfit mode)
+        version: 3,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.looks), ({ clothingItemId, ...look }) =>
+                clothingItemId !== undefined ? { ...look, clothingItemIds: [clothingItemId] } : undefined
+            );
+        },
+    },
+    {
+        // Trend analyses gained a per-dimension breakdown, tags, demographics and suggestions
+        version: 4,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.looks), ({ trendResult, ...look }) =>
+                isStoredRecord(trendResult) && !('trendTags' in trendResult)
+                    ? {
+                        ...look,
+                        trendResult: { ...trendResult, dimensions: null, trendTags: [], targetDemographics: [], suggestions: [] },
+                    }
+                    : undefined
+            );
+        },
+    },
+    {
+        // Images are stored as typed { mimeType, data } objects instead of JSON strings.
+        // Records whose images cannot be parsed are dropped rather than left to break the UI.
+        version: 5,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.clothingItems), item =>
+                typeof item.imageData === 'string' ? { ...item, imageData: imagePayloadFromJson(item.imageData) } : undefined
+            );
+            updateRecords(transaction.objectStore(STORES.looks), look => ({
+                ...look,
+                modelImage: typeof look.modelImage === 'string' ? imagePayloadFromJson(look.modelImage) : look.modelImage,
+                generatedImage: typeof look.generatedImage === 'string' ? imagePayloadFromJson(look.generatedImage) : look.generatedImage,
+            }));
+        },
+    },
+    {
+        // Catalog items gained descriptive attributes; backfill them for the bundled items
+        version: 6,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.clothingItems), item => {
+                const seed = seedClothingItems.find(seedItem => seedItem.id === item.id);
+                return seed?.attributes && !item.attributes ? { ...item, attributes: seed.attributes } : undefined;
+            });
+        },
+    },
+    {
+        // Categories became a user-editable list. Seed it with the defaults plus any
+        // category already used in the catalog, so no existing item is left without one.
+        version: 7,
+        migrate: (db, transaction) => {
+            const categories = db.createObjectStore(STORES.categories, { keyPath: 'name' });
+            DEFAULT_CATEGORIES.forEach((name, position) => categories.put({ name, position }));
+            const request = transaction.objectStore(STORES.clothingItems).getAll();
+            request.onsuccess = () => {
+                const used = new Set<string>(request.result.map(item => item.category));
+                [...used]
+                    .filter(name => !DEFAULT_CATEGORIES.includes(name))
+                    .forEach((name, index) => categories.put({ name, position: DEFAULT_CATEGORIES.length + index }));
+            };
+        },
+    },
+    {
+        // Looks are generated on saved model profiles; earlier looks used an anonymous upload
+        version: 8,
+        migrate: (db, transaction) => {
+            db.createObjectStore(STORES.modelProfiles, { keyPath: 'id' });
+            updateRecords(transaction.objectStore(STORES.looks), look =>
+                'modelProfileId' in look ? undefined : { ...look, modelProfileId: null, modelProfileName: null }
+            );
+        },
+    },
+    {
+        // Looks record the scene presets they were generated with
+        version: 9,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.looks), look =>
+                'scene' in look ? undefined : { ...look, scene: null }
+            );
+        },
+    },
+    {
+        // Prompts became versioned templates, plus a key-value store for app settings.
+        // Every version of a template is kept so results can be traced back to it.
+        version: 10,
+        migrate: (db, transaction) => {
+            const templates = db.createObjectStore(STORES.promptTemplates, { keyPath: ['id', 'version'] });
+            DEFAULT_PROMPT_TEMPLATES.forEach(template => templates.put(template));
+            db.createObjectStore(STORES.settings, { keyPath: 'key' });
+            updateRecords(transaction.objectStore(STORES.looks), look =>
+                'composeTemplateVersion' in look ? undefined : { ...look, composeTemplateVersion: null, analysisTemplateVersion: null }
+            );
+        },
+    },
+    {
+        // Content-addressed cache of AI responses, evicted least recently used first
+        version: 11,
+        migrate: (db) => {
+            const cache = db.createObjectStore(STORES.responseCache, { keyPath: 'key' });
+            cache.createIndex('lastUsedAt', 'lastUsedAt');
+        },
+    },
+    {
+        // Daily API usage per model, for the quota warnings and cost estimates
+        version: 12,
+        migrate: (db) => {
+            const usage = db.createObjectStore(STORES.usage, { keyPath: ['day', 'model'] });
+            usage.createIndex('day', 'day');
+        },
+    },
+    {
+        // Looks record the seed they were generated with, for variations runs
+        version: 13,
+        migrate: (_db, transaction) => {
+            updateRecords(transaction.objectStore(STORES.looks), look =>
+                'seed' in look ? undefined : { ...look, seed: null }
+            );
+        },
+    },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this environment.'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const transaction = request.transaction as IDBTransaction;
+            migrations
+                .filter(migration => migration.version > event.oldVersion)
+                .forEach(migration => migration.migrate(db, transaction));
+            applyPendingUpdates(transaction);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The database upgrade is blocked by another open tab.'));
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Runs `work` inside a transaction and resolves once that transaction has committed
+export const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await work(transaction.objectStore(storeName));
+    await done;
+    return result;
+};
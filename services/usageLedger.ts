@@ -0,0 +1,107 @@
+import { MODEL_PRICING } from "../data/modelQuotas";
+import { requestToPromise, STORES, withStore } from "./storage/database";
+
+export interface UsageTotals {
+    calls: number; // Requests sent, including ones that failed
+    images: number; // Images returned
+    inputTokens: number;
+    outputTokens: number;
+    cost: number; // Estimated USD
+}
+
+export interface UsageSnapshot {
+    day: string; // Local date, YYYY-MM-DD
+    today: Record<string, UsageTotals>; // Per model, persisted across reloads
+    session: Record<string, UsageTotals>; // Per model, since the app was opened
+}
+
+// What a single response consumed
+export interface ResponseUsage {
+    images: number;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+interface UsageRecord extends UsageTotals {
+    day: string;
+    model: string;
+}
+
+export const EMPTY_USAGE: UsageTotals = { calls: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+const toDayKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+let snapshot: UsageSnapshot = { day: toDayKey(new Date()), today: {}, session: {} };
+const listeners = new Set<(snapshot: UsageSnapshot) => void>();
+
+const estimateCost = (model: string, { inputTokens, outputTokens }: ResponseUsage): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return 0;
+    return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+const addUsage = (totals: UsageTotals = EMPTY_USAGE, change: Partial<UsageTotals>): UsageTotals => ({
+    calls: totals.calls + (change.calls ?? 0),
+    images: totals.images + (change.images ?? 0),
+    inputTokens: totals.inputTokens + (change.inputTokens ?? 0),
+    outputTokens: totals.outputTokens + (change.outputTokens ?? 0),
+    cost: totals.cost + (change.cost ?? 0),
+});
+
+// Starts a fresh day when the date has changed since the last request
+const rollOverDay = () => {
+    const day = toDayKey(new Date());
+    if (day !== snapshot.day) {
+        snapshot = { ...snapshot, day, today: {} };
+    }
+};
+
+const record = (model: string, change: Partial<UsageTotals>) => {
+    rollOverDay();
+    const today = addUsage(snapshot.today[model], change);
+    snapshot = {
+        ...snapshot,
+        today: { ...snapshot.today, [model]: today },
+        session: { ...snapshot.session, [model]: addUsage(snapshot.session[model], change) },
+    };
+    listeners.forEach(listener => listener(snapshot));
+    const usageRecord: UsageRecord = { ...today, day: snapshot.day, model };
+    withStore(STORES.usage, 'readwrite', store => requestToPromise(store.put(usageRecord)))
+        .catch(err => console.warn('Failed to save the usage ledger.', err));
+};
+
+// Called by the rate limiter for every request it lets through
+export const recordCall = (model: string) => record(model, { calls: 1 });
+
+export const recordResponse = (model: string, usage: ResponseUsage) =>
+    record(model, { ...usage, cost: estimateCost(model, usage) });
+
+export const getTodayCalls = (model: string): number => {
+    rollOverDay();
+    return snapshot.today[model]?.calls ?? 0;
+};
+
+export const getUsage = (): UsageSnapshot => snapshot;
+
+// Restores today's totals so daily quotas survive a reload
+export const loadUsage = async (): Promise<void> => {
+    const day = toDayKey(new Date());
+    const records = await withStore(STORES.usage, 'readonly', store =>
+        requestToPromise(store.index('day').getAll(day) as IDBRequest<UsageRecord[]>)
+    );
+    rollOverDay();
+    const today = { ...snapshot.today };
+    // Requests made while loading are already counted in memory; keep the larger figures
+    records.forEach(({ day: _day, model, ...totals }) => {
+        if (!today[model] || totals.calls > today[model].calls) today[model] = totals;
+    });
+    snapshot = { ...snapshot, today };
+    listeners.forEach(listener => listener(snapshot));
+};
+
+// Returns a function that stops the updates
+export const subscribeToUsage = (listener: (snapshot: UsageSnapshot) => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
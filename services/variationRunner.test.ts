@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SCENE } from "../data/scenePresets";
+import { ModelSubject, TrendAnalysisResult } from "../types";
+import { GenerationBlock, SafetyBlockedError } from "../utils/errors";
+import { ImagePayload } from "../utils/imagePayload";
+import { analyzeTrend, generateStyledImage } from "./geminiService";
+import { getBestCandidate, runVariations } from "./variationRunner";
+
+vi.mock("./geminiService", () => ({
+    generateStyledImage: vi.fn(),
+    analyzeTrend: vi.fn(),
+}));
+
+const IMAGE: ImagePayload = { mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+const MODEL: ModelSubject = { photos: [IMAGE], notes: '' };
+const BLOCK: GenerationBlock = { operation: 'compose', reason: 'safety', source: 'output', categories: [], modelMessage: null };
+
+describe('runVariations', () => {
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    it('keeps the block of a filtered candidate and carries on with the others', async () => {
+        vi.mocked(generateStyledImage)
+            .mockRejectedValueOnce(new SafetyBlockedError(BLOCK))
+            .mockResolvedValueOnce(IMAGE);
+        vi.mocked(analyzeTrend).mockResolvedValue({ score: 81 } as TrendAnalysisResult);
+
+        const candidates = await runVariations(MODEL, [], DEFAULT_SCENE, { count: 2, varyPose: false, analyze: true, onProgress: () => undefined });
+
+        expect(candidates[0]).toMatchObject({ index: 0, status: 'failed', block: BLOCK });
+        expect(candidates[1]).toMatchObject({ index: 1, status: 'done', trendResult: { score: 81 } });
+        expect(getBestCandidate(candidates)?.index).toBe(1);
+    });
+
+    it('gives every candidate its own seed and, when asked, its own pose', async () => {
+        vi.mocked(generateStyledImage).mockResolvedValue(IMAGE);
+
+        const candidates = await runVariations(MODEL, [], DEFAULT_SCENE, { count: 3, varyPose: true, analyze: false, onProgress: () => undefined });
+
+        expect(new Set(candidates.map(candidate => candidate.seed)).size).toBe(3);
+        expect(candidates.map(candidate => candidate.scene.pose)).toEqual(['natural', 'front', 'three-quarter']);
+        expect(vi.mocked(generateStyledImage).mock.calls.map(([, , , options]) => options?.seed)).toEqual(candidates.map(candidate => candidate.seed));
+    });
+});
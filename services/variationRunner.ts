@@ -0,0 +1,105 @@
+import { POSE_PRESETS, SceneSettings } from "../data/scenePresets";
+import { Garment, ModelSubject, TrendAnalysisResult } from "../types";
+import { ApiError, CancelledError, GenerationBlock, SafetyBlockedError } from "../utils/errors";
+import { ImagePayload } from "../utils/imagePayload";
+import { analyzeTrend, generateStyledImage } from "./geminiService";
+
+export type VariationStatus = 'generating' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+export interface VariationCandidate {
+    index: number;
+    seed: number;
+    scene: SceneSettings; // May differ from the requested scene in its pose, see planVariations
+    status: VariationStatus;
+    generatedImage?: ImagePayload;
+    trendResult?: TrendAnalysisResult;
+    composeTemplateVersion?: number;
+    analysisTemplateVersion?: number;
+    error?: string;
+    block?: GenerationBlock; // Why the AI refused or filtered the candidate, when it did
+}
+
+export interface VariationSettings {
+    count: number; // 1 generates a single look the usual way
+    // Gives each candidate the next pose preset, starting from the requested one
+    varyPose: boolean;
+    // Scores every candidate, so the best one can be picked out
+    analyze: boolean;
+}
+
+export interface VariationOptions extends VariationSettings {
+    signal?: AbortSignal;
+    onProgress: (candidate: VariationCandidate) => void;
+}
+
+export const MAX_VARIATIONS = 4;
+
+export const DEFAULT_VARIATION_SETTINGS: VariationSettings = { count: 1, varyPose: false, analyze: true };
+
+// The seed range the Gemini API accepts
+const MAX_SEED = 2 ** 31 - 1;
+
+export const planVariations = (scene: SceneSettings, count: number, varyPose: boolean): Pick<VariationCandidate, 'index' | 'seed' | 'scene'>[] => {
+    const firstPose = POSE_PRESETS.findIndex(preset => preset.id === scene.pose);
+    return Array.from({ length: count }, (_, index) => ({
+        index,
+        seed: Math.floor(Math.random() * MAX_SEED),
+        scene: varyPose ? { ...scene, pose: POSE_PRESETS[(firstPose + index) % POSE_PRESETS.length].id } : scene,
+    }));
+};
+
+// The highest-scoring analyzed candidate, or undefined while none has been scored
+export const getBestCandidate = (candidates: VariationCandidate[]): VariationCandidate | undefined =>
+    candidates.reduce<VariationCandidate | undefined>((best, candidate) =>
+        candidate.trendResult && (!best?.trendResult || candidate.trendResult.score > best.trendResult.score) ? candidate : best,
+    undefined);
+
+// Generates `count` candidates of one look side by side; the rate limiter spaces out the requests.
+// A failed candidate does not stop the others. Rejects with CancelledError if `signal` aborts.
+export const runVariations = async (
+    model: ModelSubject,
+    garments: Garment[],
+    scene: SceneSettings,
+    { count, varyPose, analyze, signal, onProgress }: VariationOptions
+): Promise<VariationCandidate[]> => {
+    const runCandidate = async (plan: Pick<VariationCandidate, 'index' | 'seed' | 'scene'>): Promise<VariationCandidate> => {
+        let candidate: VariationCandidate = { ...plan, status: 'generating' };
+        const report = (update: Partial<VariationCandidate>) => {
+            candidate = { ...candidate, ...update };
+            onProgress(candidate);
+        };
+
+        report({});
+        try {
+            // Each seed gets its own cache entry, so candidates never collapse into one cached image
+            let composeTemplateVersion: number | undefined;
+            let analysisTemplateVersion: number | undefined;
+            const generatedImage = await generateStyledImage(model, garments, plan.scene, {
+                signal,
+                seed: plan.seed,
+                onPromptRendered: template => { composeTemplateVersion = template.version; },
+            });
+            if (!analyze) {
+                report({ status: 'done', generatedImage, composeTemplateVersion });
+                return candidate;
+            }
+            report({ status: 'analyzing', generatedImage, composeTemplateVersion });
+            const trendResult = await analyzeTrend(generatedImage, garments, {
+                signal,
+                onPromptRendered: template => { analysisTemplateVersion = template.version; },
+            });
+            report({ status: 'done', trendResult, analysisTemplateVersion });
+        } catch (err) {
+            if (err instanceof CancelledError || signal?.aborted) {
+                throw new CancelledError();
+            }
+            console.error(err);
+            const message = err instanceof ApiError ? err.message : 'An unexpected error occurred.';
+            const block = err instanceof SafetyBlockedError ? err.block ?? undefined : undefined;
+            report({ status: 'failed', error: message, block });
+        }
+        return candidate;
+    };
+
+    return Promise.all(planVariations(scene, count, varyPose).map(runCandidate));
+};
@@ -1,5 +1,68 @@
+import { ClothingCategory, ClothingItem, GarmentAttributes } from './data/clothingItems';
+import { ImagePayload } from './utils/imagePayload';
+import { SceneSettings } from './data/scenePresets';
+
+export type TrendDimension = 'colorPalette' | 'silhouette' | 'fabricTexture' | 'styling' | 'seasonality';
+
+// Sub-scores from 0 to 100 for each aspect of the look
+export type TrendDimensionScores = Record<TrendDimension, number>;
 
 export interface TrendAnalysisResult {
   score: number;
   analysis: string;
+  dimensions: TrendDimensionScores | null; // null for looks analyzed before the breakdown existed
+  trendTags: string[]; // e.g. "Y2K revival", "quiet luxury"
+  targetDemographics: string[];
+  suggestions: string[];
+}
+
+// The parts of a catalog item the AI providers need to dress the model
+export type Garment = Pick<ClothingItem, 'name' | 'category' | 'imageData' | 'attributes'>;
+
+// Outcome of asking the analysis model which of two looks is more on-trend
+export interface PairwiseVerdict {
+  winner: 'A' | 'B' | 'tie';
+  confidence: number; // 0 to 100
+  reasoning: string;
+  differentiators: string[]; // Key points that separated the two looks
+}
+
+// What the AI suggests for a newly added catalog item
+export interface GarmentTagSuggestion {
+  name: string;
+  category: ClothingCategory;
+  attributes: GarmentAttributes;
+}
+
+// A saved model to generate looks on, picked from a list like catalog items
+export interface ModelProfile {
+  id: string;
+  name: string;
+  photos: ImagePayload[]; // Reference photos of the same person; the first is the primary one
+  notes: string; // Optional body and fit notes passed into the generation prompt
+  createdAt: number; // Epoch ms
+}
+
+// What generation needs to know about the model
+export type ModelSubject = Pick<ModelProfile, 'photos' | 'notes'>;
+
+// A single generated look saved to the history gallery
+export interface LookRecord {
+  id: string;
+  createdAt: number; // Epoch ms
+  modelImage: ImagePayload; // Primary photo of the model at the time, kept even if the profile is deleted
+  modelProfileId: string | null; // null for looks made before profiles existed
+  modelProfileName: string | null;
+  scene: SceneSettings | null; // Staging presets used; null for looks made before presets existed
+  clothingItemIds: number[]; // One id per garment, ordered from the innermost layer outwards
+  clothingItemName: string; // Display label, e.g. "Classic White Tee + Denim Jacket"
+  generatedImage: ImagePayload;
+  trendResult: TrendAnalysisResult | null; // null until the look has been analyzed
+  imageModel: string;
+  analysisModel: string | null;
+  // Prompt template versions used (see data/promptTemplates.ts); null for looks made before templates existed
+  composeTemplateVersion: number | null;
+  analysisTemplateVersion: number | null;
+  seed: number | null; // Set for candidates of a variations run; null when the API picked the seed
+  favorite: boolean;
 }
@@ -0,0 +1,105 @@
+import { ClothingItem, Season } from '../data/clothingItems';
+import { LookRecord } from '../types';
+
+export type CatalogSort = 'custom' | 'newest' | 'oldest' | 'name' | 'score';
+
+export interface CatalogFilters {
+  query: string;
+  categories: string[];
+  colors: string[];
+  seasons: Season[];
+  brands: string[];
+}
+
+export const EMPTY_FILTERS: CatalogFilters = { query: '', categories: [], colors: [], seasons: [], brands: [] };
+
+export const hasActiveFilters = (filters: CatalogFilters): boolean =>
+  filters.query.trim() !== '' ||
+  filters.categories.length > 0 ||
+  filters.colors.length > 0 ||
+  filters.seasons.length > 0 ||
+  filters.brands.length > 0;
+
+// Everything a text search should match: the name, brand, free tags and tagged attributes
+const searchableText = (item: ClothingItem): string => [
+  item.name,
+  item.brand,
+  item.category,
+  ...(item.tags ?? []),
+  ...(item.attributes?.colors ?? []),
+  item.attributes?.pattern,
+  item.attributes?.material,
+  item.attributes?.sleeveLength,
+  item.attributes?.length,
+].filter(Boolean).join(' ').toLowerCase();
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+// Values present in the catalog for each multi-select facet
+export const getFacetOptions = (items: ClothingItem[]) => ({
+  categories: uniqueSorted(items.map(item => item.category)),
+  colors: uniqueSorted(items.flatMap(item => item.attributes?.colors ?? [])),
+  brands: uniqueSorted(items.map(item => item.brand)),
+});
+
+// Within a facet any selected value may match; across facets all must match
+export const filterCatalog = (items: ClothingItem[], filters: CatalogFilters): ClothingItem[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter(item => {
+    if (filters.categories.length && !filters.categories.includes(item.category)) return false;
+    if (filters.colors.length && !item.attributes?.colors.some(color => filters.colors.includes(color))) return false;
+    if (filters.seasons.length && !item.attributes?.seasons.some(season => filters.seasons.includes(season))) return false;
+    if (filters.brands.length && (!item.brand || !filters.brands.includes(item.brand))) return false;
+    if (terms.length) {
+      const text = searchableText(item);
+      return terms.every(term => text.includes(term));
+    }
+    return true;
+  });
+};
+
+// Highest trend score each catalog item has reached in any analysed look it was part of
+export const getBestScores = (looks: LookRecord[]): Map<number, number> => {
+  const scores = new Map<number, number>();
+  for (const look of looks) {
+    if (!look.trendResult) continue;
+    for (const id of look.clothingItemIds) {
+      scores.set(id, Math.max(scores.get(id) ?? 0, look.trendResult.score));
+    }
+  }
+  return scores;
+};
+
+// Position in the user's drag-and-drop order. Items that were never reordered fall back to
+// newest first, which is also where a freshly added item lands (see catalogRepository.addItem).
+const customOrder = (item: ClothingItem) => item.sortOrder ?? -(item.addedAt ?? 0);
+
+export const sortCatalog = (items: ClothingItem[], sort: CatalogSort, bestScores: Map<number, number>): ClothingItem[] => {
+  const byNewest = (a: ClothingItem, b: ClothingItem) => (b.addedAt ?? 0) - (a.addedAt ?? 0);
+  switch (sort) {
+    case 'custom':
+      return [...items].sort((a, b) => customOrder(a) - customOrder(b) || a.id - b.id);
+    case 'oldest':
+      return [...items].sort((a, b) => -byNewest(a, b));
+    case 'name':
+      return [...items].sort((a, b) => a.name.localeCompare(b.name));
+    case 'score':
+      // Items that were never analysed sink to the bottom, newest first
+      return [...items].sort((a, b) => (bestScores.get(b.id) ?? -1) - (bestScores.get(a.id) ?? -1) || byNewest(a, b));
+    default:
+      return [...items].sort(byNewest);
+  }
+};
+
+// Moves `draggedId` into the place of `targetId` within the custom order and renumbers
+// every item, so the result can be saved as is
+export const moveItem = (items: ClothingItem[], draggedId: number, targetId: number): ClothingItem[] => {
+  const ordered = sortCatalog(items, 'custom', new Map());
+  const from = ordered.findIndex(item => item.id === draggedId);
+  const to = ordered.findIndex(item => item.id === targetId);
+  if (from < 0 || to < 0 || from === to) return items;
+  const [dragged] = ordered.splice(from, 1);
+  ordered.splice(to, 0, dragged);
+  return ordered.map((item, index) => ({ ...item, sortOrder: index }));
+};
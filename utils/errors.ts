@@ -14,6 +14,15 @@ export class RateLimitError extends ApiError {
   }
 }
 
+// Raised on the client, before sending, once the daily request limit set for a model is used up.
+// Unlike other rate limits it does not clear by waiting a few seconds.
+export class QuotaExceededError extends RateLimitError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
 // For 400 - Bad Request errors (e.g., invalid image)
 export class InvalidInputError extends ApiError {
   constructor(message = 'There was an issue with one of the uploaded images. Please try using a different, clear image.') {
@@ -29,3 +38,76 @@ export class ServerError extends ApiError {
     this.name = 'ServerError';
   }
 }
+
+// Which request was blocked, so the explanation can point at the right input
+export type BlockedOperation = 'compose' | 'analyze' | 'cleanup' | 'tag' | 'judge';
+
+export type BlockReason = 'safety' | 'prohibited' | 'personalInfo' | 'recitation' | 'refused' | 'other';
+
+// Why the AI did not return what was asked for, read from the response (see utils/safetyGuidance.ts)
+export interface GenerationBlock {
+  operation: BlockedOperation;
+  reason: BlockReason;
+  source: 'input' | 'output'; // Whether the request itself was refused or the generated output was filtered
+  categories: string[]; // Safety categories the response flagged, e.g. 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  modelMessage: string | null; // Text the model returned instead, if any
+}
+
+// The AI refused the request or filtered its output; retrying the same input will not help
+export class SafetyBlockedError extends ApiError {
+  block: GenerationBlock | null;
+
+  constructor(block: GenerationBlock | null = null, message = 'The request was blocked by the AI safety filters. Please try a different image.') {
+    super(message);
+    this.name = 'SafetyBlockedError';
+    this.block = block;
+  }
+}
+
+// A single attempt took longer than its time limit, or the server reported a deadline
+export class TimeoutError extends ApiError {
+  constructor(message = 'The AI service took too long to respond. Please try again.') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The API answered but without the content that was asked for (no candidates, no image)
+export class EmptyResponseError extends ApiError {
+  constructor(message = 'The AI service returned an empty response. Please try again.') {
+    super(message);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// The request never reached the API, e.g. while offline
+export class NetworkError extends ApiError {
+  constructor(message = 'Could not reach the AI service. Please check your internet connection and try again.') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown when the user cancels a request; callers should drop it silently rather than show an error
+export class CancelledError extends Error {
+  constructor(message = 'The request was cancelled.') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+// For images rejected on the client before any request is made
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageValidationError';
+  }
+}
+
+// For catalog bundles or CSV files that cannot be imported at all; the message is shown to the user
+export class CatalogImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CatalogImportError';
+  }
+}
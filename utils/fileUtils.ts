@@ -1,5 +1,5 @@
 
-export const convertFileToBase64 = (file: File): Promise<string> => {
+export const convertFileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
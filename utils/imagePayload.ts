@@ -0,0 +1,93 @@
+import { ImageValidationError } from './errors';
+import { convertFileToBase64 } from './fileUtils';
+
+// An image as sent to and returned by the AI providers: raw base64 without the data URL prefix.
+// Payloads are treated as immutable, which lets display URLs be cached per object.
+export interface ImagePayload {
+  readonly mimeType: string;
+  readonly data: string;
+}
+
+// Standard or URL-safe base64; padding is optional because some encoders omit it
+const BASE64_PATTERN = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+export const isImagePayload = (value: unknown): value is ImagePayload => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { mimeType, data } = value as Record<string, unknown>;
+  return typeof mimeType === 'string'
+    && mimeType.startsWith('image/')
+    && typeof data === 'string'
+    && data.length > 0
+    && BASE64_PATTERN.test(data);
+};
+
+export const createImagePayload = (mimeType: string, data: string): ImagePayload => {
+  const payload = { mimeType, data };
+  if (!isImagePayload(payload)) {
+    throw new ImageValidationError('The image data is malformed. Please try a different image.');
+  }
+  return Object.freeze(payload);
+};
+
+export const imagePayloadFromDataUrl = (dataUrl: string): ImagePayload => {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+  if (!match) {
+    throw new ImageValidationError('The image data is malformed. Please try a different image.');
+  }
+  return createImagePayload(match[1], match[2]);
+};
+
+export const imagePayloadFromBlob = async (blob: Blob): Promise<ImagePayload> => {
+  return imagePayloadFromDataUrl(await convertFileToBase64(blob));
+};
+
+export const imagePayloadFromFile = (file: File): Promise<ImagePayload> => imagePayloadFromBlob(file);
+
+// Reads the legacy JSON string format (`{"mimeType": ..., "data": ...}`) used before payloads were typed
+export const imagePayloadFromJson = (json: string): ImagePayload => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ImageValidationError('The image data is malformed. Please try a different image.');
+  }
+  const { mimeType, data } = (parsed ?? {}) as Record<string, string>;
+  return createImagePayload(mimeType, data);
+};
+
+export const toDataUrl = (payload: ImagePayload): string => `data:${payload.mimeType};base64,${payload.data}`;
+
+export const toBlob = (payload: ImagePayload): Blob => {
+  const normalized = payload.data.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: payload.mimeType });
+};
+
+export const getFileExtension = (payload: ImagePayload): string => {
+  const subtype = payload.mimeType.split('/')[1] || 'png';
+  return subtype === 'svg+xml' ? 'svg' : subtype;
+};
+
+// Object URLs are decoded once per payload and shared by every render that shows it.
+// They are revoked automatically once the payload itself is garbage collected.
+const objectUrls = new WeakMap<ImagePayload, string>();
+const objectUrlRegistry = new FinalizationRegistry<string>(url => URL.revokeObjectURL(url));
+
+export const getObjectUrl = (payload: ImagePayload): string => {
+  let url = objectUrls.get(payload);
+  if (!url) {
+    try {
+      url = URL.createObjectURL(toBlob(payload));
+      objectUrlRegistry.register(payload, url);
+    } catch {
+      // Undecodable data still gets a URL, so the browser shows its usual broken-image placeholder
+      url = toDataUrl(payload);
+    }
+    objectUrls.set(payload, url);
+  }
+  return url;
+};
@@ -0,0 +1,167 @@
+import { ImageValidationError } from './errors';
+import { ImagePayload, imagePayloadFromBlob, toBlob } from './imagePayload';
+
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  maxDimension?: number; // Longest edge in pixels after downscaling
+  format?: OutputFormat;
+  quality?: number; // 0 to 1
+}
+
+export const SUPPORTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const ACCEPT_ATTRIBUTE = SUPPORTED_INPUT_TYPES.join(', ');
+
+const MAX_INPUT_BYTES = 25 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 60_000_000;
+const MIN_INPUT_DIMENSION = 64;
+
+const DEFAULT_OPTIONS: Required<PreprocessOptions> = {
+  maxDimension: 1536,
+  format: 'image/jpeg',
+  quality: 0.9,
+};
+
+const describeUnsupportedType = (type: string): string => {
+  if (type === 'image/heic' || type === 'image/heif') {
+    return 'HEIC/HEIF photos are not supported. Please export the photo as JPG or PNG and try again.';
+  }
+  if (type === 'image/gif') {
+    return 'GIF images are not supported. Please use a still PNG, JPG or WEBP image.';
+  }
+  return `Unsupported file type${type ? ` (${type})` : ''}. Please use a PNG, JPG or WEBP image.`;
+};
+
+const validateFile = (file: File) => {
+  if (!SUPPORTED_INPUT_TYPES.includes(file.type)) {
+    throw new ImageValidationError(describeUnsupportedType(file.type));
+  }
+  if (file.size > MAX_INPUT_BYTES) {
+    throw new ImageValidationError(`This image is too large (${(file.size / 1024 / 1024).toFixed(1)} MB). Please use an image under ${MAX_INPUT_BYTES / 1024 / 1024} MB.`);
+  }
+};
+
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    // 'from-image' applies the EXIF orientation so phone photos are not sideways
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageValidationError('This image could not be read. The file may be corrupted; please try a different image.');
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: OutputFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new ImageValidationError('This image could not be processed. Please try a different image.')),
+      format,
+      quality
+    );
+  });
+};
+
+// Fixes orientation, downscales and re-encodes an uploaded image before it is stored or sent to a provider.
+// Re-encoding through a canvas also strips EXIF and other metadata (GPS location, camera details).
+export const preprocessImage = async (file: File, options: PreprocessOptions = {}): Promise<ImagePayload> => {
+  const { maxDimension, format, quality } = { ...DEFAULT_OPTIONS, ...options };
+  validateFile(file);
+
+  const bitmap = await decodeImage(file);
+  try {
+    const { width, height } = bitmap;
+    if (width * height > MAX_INPUT_PIXELS) {
+      throw new ImageValidationError(`This image has too many pixels (${width}×${height}). Please use a smaller image.`);
+    }
+    if (Math.min(width, height) < MIN_INPUT_DIMENSION) {
+      throw new ImageValidationError(`This image is too small (${width}×${height}). Please use an image at least ${MIN_INPUT_DIMENSION}px on each side.`);
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new ImageValidationError('Your browser could not process this image.');
+    }
+    if (format === 'image/jpeg') {
+      // JPEG has no alpha channel; flatten transparent areas onto white rather than black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    return imagePayloadFromBlob(await canvasToBlob(canvas, format, quality));
+  } finally {
+    bitmap.close();
+  }
+};
+
+export interface CropOptions {
+  tolerance?: number; // Max per-channel difference from the background colour, 0 to 255
+  padding?: number; // Fraction of the cropped size kept as margin on each side
+}
+
+// Trims the plain background around a product shot (e.g. a cleaned-up garment on white).
+// The background colour is sampled from the top-left pixel; images without a plain border are returned as-is.
+export const cropToContent = async (payload: ImagePayload, { tolerance = 16, padding = 0.04 }: CropOptions = {}): Promise<ImagePayload> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(toBlob(payload));
+  } catch {
+    throw new ImageValidationError('This image could not be read. Please try a different image.');
+  }
+
+  try {
+    const { width, height } = bitmap;
+    const source = document.createElement('canvas');
+    source.width = width;
+    source.height = height;
+    const sourceContext = source.getContext('2d');
+    if (!sourceContext) return payload;
+    sourceContext.drawImage(bitmap, 0, 0);
+    const { data } = sourceContext.getImageData(0, 0, width, height);
+
+    const [bgR, bgG, bgB] = [data[0], data[1], data[2]];
+    let top = height, left = width, bottom = -1, right = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const isBackground = data[i + 3] < tolerance || (
+          Math.abs(data[i] - bgR) <= tolerance
+          && Math.abs(data[i + 1] - bgG) <= tolerance
+          && Math.abs(data[i + 2] - bgB) <= tolerance
+        );
+        if (!isBackground) {
+          if (y < top) top = y;
+          if (y > bottom) bottom = y;
+          if (x < left) left = x;
+          if (x > right) right = x;
+        }
+      }
+    }
+    if (bottom < 0) return payload; // Nothing but background
+
+    const margin = Math.round(Math.max(right - left, bottom - top) * padding);
+    const cropX = Math.max(0, left - margin);
+    const cropY = Math.max(0, top - margin);
+    const cropWidth = Math.min(width, right + margin + 1) - cropX;
+    const cropHeight = Math.min(height, bottom + margin + 1) - cropY;
+    if (cropWidth === width && cropHeight === height) return payload;
+
+    const target = document.createElement('canvas');
+    target.width = cropWidth;
+    target.height = cropHeight;
+    const targetContext = target.getContext('2d');
+    if (!targetContext) return payload;
+    targetContext.fillStyle = `rgb(${bgR}, ${bgG}, ${bgB})`;
+    targetContext.fillRect(0, 0, cropWidth, cropHeight);
+    targetContext.drawImage(source, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+    return imagePayloadFromBlob(await canvasToBlob(target, DEFAULT_OPTIONS.format, DEFAULT_OPTIONS.quality));
+  } finally {
+    bitmap.close();
+  }
+};
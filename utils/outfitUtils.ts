@@ -0,0 +1,40 @@
+import { ClothingCategory, ClothingItem } from '../data/clothingItems';
+
+// Lower layers are put on first; outerwear goes on over the clothes and accessories last.
+// User-defined categories are treated like accessories.
+const LAYER_ORDER: Record<ClothingCategory, number> = {
+  Dresses: 0,
+  Tops: 0,
+  Bottoms: 1,
+  Outerwear: 2,
+  Shoes: 3,
+  Accessories: 3,
+  Bags: 3,
+};
+const DEFAULT_LAYER = 3;
+
+// Categories that cannot be worn together with the key category; any other pair can be combined
+const CONFLICTING_CATEGORIES: Record<ClothingCategory, ClothingCategory[]> = {
+  Dresses: ['Tops', 'Bottoms'],
+  Tops: ['Dresses'],
+  Bottoms: ['Dresses'],
+};
+
+const layerOf = (category: ClothingCategory) => LAYER_ORDER[category] ?? DEFAULT_LAYER;
+
+export const sortByLayer = <T extends Pick<ClothingItem, 'category'>>(garments: T[]): T[] => {
+  return [...garments].sort((a, b) => layerOf(a.category) - layerOf(b.category));
+};
+
+// Adds `item` to the outfit, replacing whatever it conflicts with, or removes it if already selected
+export const toggleOutfitItem = (outfit: ClothingItem[], item: ClothingItem): ClothingItem[] => {
+  if (outfit.some(selected => selected.id === item.id)) {
+    return outfit.filter(selected => selected.id !== item.id);
+  }
+  const replaced = [item.category, ...(CONFLICTING_CATEGORIES[item.category] ?? [])];
+  return sortByLayer([...outfit.filter(selected => !replaced.includes(selected.category)), item]);
+};
+
+export const describeOutfit = (garments: Pick<ClothingItem, 'name'>[]): string => {
+  return garments.map(garment => garment.name).join(' + ');
+};
@@ -0,0 +1,57 @@
+import { GenerationBlock } from './errors';
+
+export interface BlockExplanation {
+  title: string;
+  guidance: string;
+}
+
+// What the user can change to get past a block, most specific case first
+export const explainBlock = ({ operation, reason, source }: GenerationBlock): BlockExplanation => {
+  if (reason === 'personalInfo') {
+    return {
+      title: 'Personal information detected',
+      guidance: 'Crop out or cover any names, ID cards, documents or other personal details visible in the photos.',
+    };
+  }
+  if (reason === 'recitation') {
+    return {
+      title: 'The result was too close to existing content',
+      guidance: 'Try again, or pick a different scene preset so the result turns out differently.',
+    };
+  }
+
+  switch (operation) {
+    case 'compose':
+      if (reason === 'refused') {
+        return {
+          title: 'The model declined to generate the look',
+          guidance: 'It replied with text instead of an image. Its reply is shown below; adjusting the photos or the fit notes it mentions usually helps.',
+        };
+      }
+      return source === 'input'
+        ? {
+          title: 'Model photo or garment image flagged',
+          guidance: 'Try a fully clothed reference photo of the model against a plain background, and product shots of the garments on their own.',
+        }
+        : {
+          title: 'The generated look was filtered',
+          guidance: 'The result was judged too revealing or otherwise unsafe. Try a different pose or framing preset, or garments that offer more coverage.',
+        };
+    case 'analyze':
+    case 'judge':
+      return {
+        title: 'The look could not be analyzed',
+        guidance: 'The analysis model flagged the generated image. Generate the look again and analyze the new result.',
+      };
+    case 'cleanup':
+    case 'tag':
+      return {
+        title: 'Garment photo flagged',
+        guidance: 'Use a photo of the garment on its own, on a hanger or laid flat, without a person wearing it.',
+      };
+  }
+};
+
+// e.g. 'HARM_CATEGORY_SEXUALLY_EXPLICIT' -> 'sexually explicit'
+export const formatSafetyCategory = (category: string): string =>
+  category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();